@@ -0,0 +1,157 @@
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The two per-room channels: deltas from the writer, commands to the owner. */
+export type RoomChannel = 'delta' | 'command';
+
+export interface StoredSnapshot {
+  data: string;
+  seq: number;
+  tick: number;
+  timestamp: number;
+}
+
+/** One entry of a room's snapshot history (see config.snapshotHistorySize). */
+export interface SnapshotVersionInfo {
+  version: number;
+  seq: number;
+  tick: number;
+  timestamp: number;
+  /** Instance that wrote the snapshot. */
+  instanceId: string;
+}
+
+export interface SnapshotVersion extends SnapshotVersionInfo {
+  data: string;
+}
+
+/**
+ * Outcome of a snapshot write. Conditional writes are rejected when the
+ * stored snapshot's seq is not lower; storedSeq is then the seq that won.
+ */
+export type SnapshotWriteResult = { saved: true; version: number } | { saved: false; storedSeq: number };
+
+export interface LogEntry {
+  seq: number;
+  /** Base64 MessagePack, as appended. */
+  data: string;
+}
+
+/** Result of one sweep for orphaned room data. */
+export interface RoomSweepReport {
+  scannedKeys: number;
+  removedKeys: number;
+  /** Keys given an expiry because they had none but were still recent. */
+  adoptedKeys: number;
+  orphanedRooms: string[];
+}
+
+/** An engine instance's registry entry, renewed by its heartbeat. */
+export interface InstanceInfo {
+  instanceId: string;
+  /** Where clients and load balancers reach the instance (config.registry.address). */
+  address: string;
+  startedAt: number;
+  rooms: number;
+  clients: number;
+  heartbeatAt: number;
+  /** The entry lapses at this time unless the instance heartbeats again. */
+  expiresAt: number;
+}
+
+/** One instance's lobby directory entry for a room it hosts, renewed by its heartbeat. */
+export interface RoomListing {
+  roomId: string;
+  instanceId: string;
+  roomType: string;
+  /** Players connected to this instance. */
+  players: number;
+  capacity: number | null;
+  tags: string[];
+  expiresAt: number;
+}
+
+export type RoomMessageHandler = (roomId: string, channel: RoomChannel, message: Buffer) => void;
+
+/**
+ * Everything engine instances share to serve the same rooms: per-room
+ * pub/sub, snapshot storage, the durable delta log and ownership leases.
+ *
+ * Messages are opaque binary (MessagePack) Buffers. Publishing, snapshot saves and log
+ * appends reject on failure; reads resolve to null/empty and lease calls to
+ * false, so callers treat an unreachable backplane like a missing record.
+ */
+export interface Backplane {
+  /** Identifies this engine instance to the others on the backplane. */
+  readonly instanceId: string;
+
+  /** Publish to everyone subscribed to the room, including this instance. */
+  publish(roomId: string, channel: RoomChannel, message: Buffer): Promise<void>;
+  subscribe(roomId: string): Promise<void>;
+  unsubscribe(roomId: string): Promise<void>;
+  /** Set the handler for messages on subscribed rooms (replaces any previous one). */
+  onMessage(handler: RoomMessageHandler): void;
+  /** Whether publishes and writes can reach the other instances right now. */
+  isConnected(): boolean;
+  /** Call `handler` each time the connection becomes ready again after an outage. */
+  onReconnect(handler: () => void): void;
+
+  /**
+   * Replace the room's current snapshot, keeping the previous ones as history.
+   * Unless `conditional` is false the write is an atomic compare-and-set on
+   * seq, so a stale instance cannot overwrite a newer snapshot.
+   */
+  saveSnapshot(
+    roomId: string,
+    data: string,
+    seq: number,
+    tick: number,
+    conditional?: boolean
+  ): Promise<SnapshotWriteResult>;
+  loadSnapshot(roomId: string): Promise<StoredSnapshot | null>;
+  /** The room's snapshot history, newest first. */
+  listSnapshotVersions(roomId: string): Promise<SnapshotVersionInfo[]>;
+  loadSnapshotVersion(roomId: string, version: number): Promise<SnapshotVersion | null>;
+
+  /** Append an encoded delta to the room's log, trimmed to config.stream.maxLen. */
+  appendLog(roomId: string, data: string, seq: number): Promise<void>;
+  /** Read log entries with a seq greater than afterSeq, oldest first. */
+  readLog(roomId: string, afterSeq: number): Promise<LogEntry[]>;
+
+  /** Push back the expiry of the room's stored data (config.roomKeys.ttlMs). */
+  touchRoom(roomId: string): Promise<void>;
+  /** Delete everything stored for a room: snapshot, history, log and lease. */
+  deleteRoomData(roomId: string): Promise<void>;
+  /**
+   * Remove room data that is no longer expiring on its own and has not been
+   * written within config.roomKeys.ttlMs. Resolves to null if another
+   * instance is already sweeping.
+   */
+  sweepOrphanedRooms(): Promise<RoomSweepReport | null>;
+
+  /**
+   * Write this instance's registry entry. Registry and room index writes
+   * are best effort: failures are logged, and the next heartbeat retries.
+   */
+  registerInstance(info: InstanceInfo): Promise<void>;
+  unregisterInstance(): Promise<void>;
+  /** Instances whose registry entry has not lapsed. */
+  listInstances(): Promise<InstanceInfo[]>;
+  /** Record this instance as hosting the rooms for the next ttlMs. */
+  addRoomInstances(roomIds: string[], ttlMs: number): Promise<void>;
+  removeRoomInstance(roomId: string): Promise<void>;
+  /** Ids of the instances currently hosting the room. */
+  getRoomInstances(roomId: string): Promise<string[]>;
+  /** Write this instance's directory listings (best effort, like the registry). */
+  publishRoomListings(listings: RoomListing[]): Promise<void>;
+  removeRoomListing(roomId: string): Promise<void>;
+  /** Every listing that has not lapsed, one per room per hosting instance. */
+  listRoomListings(): Promise<RoomListing[]>;
+
+  /** Take the room's lease if nobody holds it. */
+  acquireLease(roomId: string, ttlMs: number): Promise<boolean>;
+  /** Extend our lease; false if it was lost. */
+  renewLease(roomId: string, ttlMs: number): Promise<boolean>;
+  releaseLease(roomId: string): Promise<void>;
+}
@@ -0,0 +1,394 @@
+import { config } from '../config/env.js';
+import type {
+  Backplane,
+  InstanceInfo,
+  LogEntry,
+  RoomChannel,
+  RoomListing,
+  RoomMessageHandler,
+  RoomSweepReport,
+  SnapshotVersion,
+  SnapshotVersionInfo,
+  SnapshotWriteResult,
+  StoredSnapshot,
+} from './backplane.js';
+
+/**
+ * Shared state standing in for Redis when several engine instances run in
+ * one Node process (e.g. multi-instance sync tests). Create one hub, then
+ * one MemoryBackplane per simulated instance.
+ */
+export class MemoryBackplaneHub {
+  private readonly snapshots: Map<string, StoredSnapshot> = new Map();
+  // Newest first, like the Redis history list
+  private readonly snapshotHistory: Map<string, SnapshotVersion[]> = new Map();
+  private readonly snapshotVersions: Map<string, number> = new Map();
+  private readonly logs: Map<string, LogEntry[]> = new Map();
+  private readonly leases: Map<string, { owner: string; expiresAt: number }> = new Map();
+  // When each room's stored data expires; applied by sweepExpiredRooms rather than on access
+  private readonly dataExpiresAt: Map<string, number> = new Map();
+  private readonly subscribers: Map<string, Set<MemoryBackplane>> = new Map();
+  private readonly instances: Map<string, InstanceInfo> = new Map();
+  // roomId -> instanceId -> when that instance's entry lapses
+  private readonly roomInstances: Map<string, Map<string, number>> = new Map();
+  // roomId -> instanceId -> that instance's directory listing
+  private readonly roomListings: Map<string, Map<string, RoomListing>> = new Map();
+
+  /**
+   * Create the backplane for one simulated engine instance.
+   */
+  public createBackplane(instanceId: string): MemoryBackplane {
+    return new MemoryBackplane(this, instanceId);
+  }
+
+  public subscribe(roomId: string, backplane: MemoryBackplane): void {
+    const set = this.subscribers.get(roomId) ?? new Set<MemoryBackplane>();
+    set.add(backplane);
+    this.subscribers.set(roomId, set);
+  }
+
+  public unsubscribe(roomId: string, backplane: MemoryBackplane): void {
+    const set = this.subscribers.get(roomId);
+    if (!set) return;
+
+    set.delete(backplane);
+    if (set.size === 0) {
+      this.subscribers.delete(roomId);
+    }
+  }
+
+  /**
+   * Deliver a message to the room's subscribers asynchronously, as a network
+   * hop would, so publishers never re-enter their own handlers.
+   */
+  public publish(roomId: string, channel: RoomChannel, message: Buffer): void {
+    const recipients = Array.from(this.subscribers.get(roomId) ?? []);
+    setImmediate(() => {
+      for (const backplane of recipients) {
+        backplane.deliver(roomId, channel, message);
+      }
+    });
+  }
+
+  public saveSnapshot(
+    roomId: string,
+    snapshot: StoredSnapshot,
+    instanceId: string,
+    conditional: boolean
+  ): SnapshotWriteResult {
+    const stored = this.snapshots.get(roomId);
+    if (conditional && stored && stored.seq >= snapshot.seq) {
+      return { saved: false, storedSeq: stored.seq };
+    }
+
+    this.snapshots.set(roomId, snapshot);
+
+    const version = (this.snapshotVersions.get(roomId) ?? 0) + 1;
+    this.snapshotVersions.set(roomId, version);
+
+    const history = this.snapshotHistory.get(roomId) ?? [];
+    history.unshift({ ...snapshot, version, instanceId });
+    history.splice(Math.max(0, config.snapshotHistorySize));
+    this.snapshotHistory.set(roomId, history);
+    this.touchRoom(roomId);
+    return { saved: true, version };
+  }
+
+  public loadSnapshot(roomId: string): StoredSnapshot | null {
+    return this.snapshots.get(roomId) ?? null;
+  }
+
+  public listSnapshotVersions(roomId: string): SnapshotVersion[] {
+    return this.snapshotHistory.get(roomId) ?? [];
+  }
+
+  public appendLog(roomId: string, entry: LogEntry): void {
+    const log = this.logs.get(roomId) ?? [];
+    log.push(entry);
+    if (log.length > config.stream.maxLen) {
+      log.splice(0, log.length - config.stream.maxLen);
+    }
+    this.logs.set(roomId, log);
+    this.touchRoom(roomId);
+  }
+
+  public readLog(roomId: string, afterSeq: number): LogEntry[] {
+    return (this.logs.get(roomId) ?? []).filter((entry) => entry.seq > afterSeq);
+  }
+
+  public touchRoom(roomId: string): void {
+    if (config.roomKeys.ttlMs > 0) {
+      this.dataExpiresAt.set(roomId, Date.now() + config.roomKeys.ttlMs);
+    }
+  }
+
+  public deleteRoomData(roomId: string): void {
+    this.snapshots.delete(roomId);
+    this.snapshotHistory.delete(roomId);
+    this.snapshotVersions.delete(roomId);
+    this.logs.delete(roomId);
+    this.leases.delete(roomId);
+    this.dataExpiresAt.delete(roomId);
+    this.roomInstances.delete(roomId);
+  }
+
+  /**
+   * Delete the data of every room whose expiry has passed.
+   */
+  public sweepExpiredRooms(): RoomSweepReport {
+    const now = Date.now();
+    const report: RoomSweepReport = { scannedKeys: 0, removedKeys: 0, adoptedKeys: 0, orphanedRooms: [] };
+
+    for (const [roomId, expiresAt] of Array.from(this.dataExpiresAt)) {
+      report.scannedKeys++;
+      if (expiresAt > now) continue;
+
+      report.removedKeys += [this.snapshots, this.snapshotHistory, this.logs].filter((map) => map.has(roomId)).length;
+      report.orphanedRooms.push(roomId);
+      this.deleteRoomData(roomId);
+    }
+
+    return report;
+  }
+
+  public registerInstance(info: InstanceInfo): void {
+    this.instances.set(info.instanceId, info);
+  }
+
+  public unregisterInstance(instanceId: string): void {
+    this.instances.delete(instanceId);
+  }
+
+  public listInstances(): InstanceInfo[] {
+    const now = Date.now();
+    return Array.from(this.instances.values()).filter((info) => info.expiresAt > now);
+  }
+
+  public addRoomInstance(roomId: string, instanceId: string, ttlMs: number): void {
+    const entries = this.roomInstances.get(roomId) ?? new Map<string, number>();
+    entries.set(instanceId, Date.now() + ttlMs);
+    this.roomInstances.set(roomId, entries);
+  }
+
+  public removeRoomInstance(roomId: string, instanceId: string): void {
+    this.roomInstances.get(roomId)?.delete(instanceId);
+  }
+
+  public getRoomInstances(roomId: string): string[] {
+    const now = Date.now();
+    return Array.from(this.roomInstances.get(roomId) ?? [])
+      .filter(([, expiresAt]) => expiresAt > now)
+      .map(([instanceId]) => instanceId);
+  }
+
+  public setRoomListing(listing: RoomListing): void {
+    const entries = this.roomListings.get(listing.roomId) ?? new Map<string, RoomListing>();
+    entries.set(listing.instanceId, listing);
+    this.roomListings.set(listing.roomId, entries);
+  }
+
+  public removeRoomListing(roomId: string, instanceId: string): void {
+    const entries = this.roomListings.get(roomId);
+    entries?.delete(instanceId);
+    if (entries?.size === 0) {
+      this.roomListings.delete(roomId);
+    }
+  }
+
+  public listRoomListings(): RoomListing[] {
+    const now = Date.now();
+    return Array.from(this.roomListings.values())
+      .flatMap((entries) => Array.from(entries.values()))
+      .filter((listing) => listing.expiresAt > now);
+  }
+
+  public acquireLease(roomId: string, owner: string, ttlMs: number): boolean {
+    const lease = this.leases.get(roomId);
+    if (lease && lease.expiresAt > Date.now()) {
+      return false;
+    }
+
+    this.leases.set(roomId, { owner, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  public renewLease(roomId: string, owner: string, ttlMs: number): boolean {
+    const lease = this.leases.get(roomId);
+    if (!lease || lease.owner !== owner || lease.expiresAt <= Date.now()) {
+      return false;
+    }
+
+    lease.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  public releaseLease(roomId: string, owner: string): void {
+    if (this.leases.get(roomId)?.owner === owner) {
+      this.leases.delete(roomId);
+    }
+  }
+}
+
+/**
+ * One simulated engine instance's view of a MemoryBackplaneHub.
+ */
+export class MemoryBackplane implements Backplane {
+  public readonly instanceId: string;
+  private readonly hub: MemoryBackplaneHub;
+  private handler: RoomMessageHandler | null;
+  private connected: boolean;
+  private readonly reconnectHandlers: Array<() => void>;
+
+  constructor(hub: MemoryBackplaneHub, instanceId: string) {
+    this.hub = hub;
+    this.instanceId = instanceId;
+    this.handler = null;
+    this.connected = true;
+    this.reconnectHandlers = [];
+  }
+
+  /**
+   * Simulate an outage: while disconnected, publishes and writes fail.
+   * Reconnecting runs the onReconnect handlers.
+   */
+  public setConnected(connected: boolean): void {
+    const reconnected = connected && !this.connected;
+    this.connected = connected;
+
+    if (reconnected) {
+      this.reconnectHandlers.forEach((handler) => handler());
+    }
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public onReconnect(handler: () => void): void {
+    this.reconnectHandlers.push(handler);
+  }
+
+  public async publish(roomId: string, channel: RoomChannel, message: Buffer): Promise<void> {
+    this.assertConnected();
+    this.hub.publish(roomId, channel, message);
+  }
+
+  public async subscribe(roomId: string): Promise<void> {
+    this.hub.subscribe(roomId, this);
+  }
+
+  public async unsubscribe(roomId: string): Promise<void> {
+    this.hub.unsubscribe(roomId, this);
+  }
+
+  public onMessage(handler: RoomMessageHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Called by the hub for messages on rooms this instance subscribed to.
+   */
+  public deliver(roomId: string, channel: RoomChannel, message: Buffer): void {
+    this.handler?.(roomId, channel, message);
+  }
+
+  public async saveSnapshot(
+    roomId: string,
+    data: string,
+    seq: number,
+    tick: number,
+    conditional: boolean = true
+  ): Promise<SnapshotWriteResult> {
+    this.assertConnected();
+    return this.hub.saveSnapshot(roomId, { data, seq, tick, timestamp: Date.now() }, this.instanceId, conditional);
+  }
+
+  public async loadSnapshot(roomId: string): Promise<StoredSnapshot | null> {
+    return this.hub.loadSnapshot(roomId);
+  }
+
+  public async listSnapshotVersions(roomId: string): Promise<SnapshotVersionInfo[]> {
+    return this.hub.listSnapshotVersions(roomId).map(({ data: _data, ...info }) => info);
+  }
+
+  public async loadSnapshotVersion(roomId: string, version: number): Promise<SnapshotVersion | null> {
+    return this.hub.listSnapshotVersions(roomId).find((entry) => entry.version === version) ?? null;
+  }
+
+  public async appendLog(roomId: string, data: string, seq: number): Promise<void> {
+    this.assertConnected();
+    this.hub.appendLog(roomId, { seq, data });
+  }
+
+  public async readLog(roomId: string, afterSeq: number): Promise<LogEntry[]> {
+    return this.hub.readLog(roomId, afterSeq);
+  }
+
+  public async touchRoom(roomId: string): Promise<void> {
+    this.hub.touchRoom(roomId);
+  }
+
+  public async deleteRoomData(roomId: string): Promise<void> {
+    this.hub.deleteRoomData(roomId);
+  }
+
+  public async sweepOrphanedRooms(): Promise<RoomSweepReport | null> {
+    return this.hub.sweepExpiredRooms();
+  }
+
+  public async registerInstance(info: InstanceInfo): Promise<void> {
+    this.hub.registerInstance(info);
+  }
+
+  public async unregisterInstance(): Promise<void> {
+    this.hub.unregisterInstance(this.instanceId);
+  }
+
+  public async listInstances(): Promise<InstanceInfo[]> {
+    return this.hub.listInstances();
+  }
+
+  public async addRoomInstances(roomIds: string[], ttlMs: number): Promise<void> {
+    roomIds.forEach((roomId) => this.hub.addRoomInstance(roomId, this.instanceId, ttlMs));
+  }
+
+  public async removeRoomInstance(roomId: string): Promise<void> {
+    this.hub.removeRoomInstance(roomId, this.instanceId);
+  }
+
+  public async getRoomInstances(roomId: string): Promise<string[]> {
+    return this.hub.getRoomInstances(roomId);
+  }
+
+  public async publishRoomListings(listings: RoomListing[]): Promise<void> {
+    listings.forEach((listing) => this.hub.setRoomListing(listing));
+  }
+
+  public async removeRoomListing(roomId: string): Promise<void> {
+    this.hub.removeRoomListing(roomId, this.instanceId);
+  }
+
+  public async listRoomListings(): Promise<RoomListing[]> {
+    return this.hub.listRoomListings();
+  }
+
+  public async acquireLease(roomId: string, ttlMs: number): Promise<boolean> {
+    this.assertConnected();
+    return this.hub.acquireLease(roomId, this.instanceId, ttlMs);
+  }
+
+  public async renewLease(roomId: string, ttlMs: number): Promise<boolean> {
+    this.assertConnected();
+    return this.hub.renewLease(roomId, this.instanceId, ttlMs);
+  }
+
+  public async releaseLease(roomId: string): Promise<void> {
+    this.hub.releaseLease(roomId, this.instanceId);
+  }
+
+  private assertConnected(): void {
+    if (!this.connected) {
+      throw new Error('Backplane disconnected');
+    }
+  }
+}
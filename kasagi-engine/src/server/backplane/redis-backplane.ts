@@ -0,0 +1,168 @@
+import { config } from '../config/env.js';
+import {
+  publishDelta,
+  publishRoomCommand,
+  saveRoomSnapshot,
+  loadRoomSnapshot,
+  listRoomSnapshotVersions,
+  loadRoomSnapshotVersion,
+  appendDeltaToStream,
+  readStreamSince,
+  acquireRoomLease,
+  renewRoomLease,
+  releaseRoomLease,
+  refreshRoomKeys,
+  deleteRoomKeys,
+  sweepOrphanedRoomKeys,
+  registerInstance,
+  unregisterInstance,
+  listRegisteredInstances,
+  addRoomInstances,
+  removeRoomInstance,
+  getRoomInstanceIds,
+  publishRoomListings,
+  removeRoomListing,
+  listRoomListings,
+} from '../redis/redis-client.js';
+import { redisClient } from '../redis/redis-client.js';
+import { subscribeToRoom, unsubscribeFromRoom, setRoomMessageHandler } from '../redis/redis-subscriber.js';
+import type {
+  Backplane,
+  InstanceInfo,
+  LogEntry,
+  RoomChannel,
+  RoomListing,
+  RoomMessageHandler,
+  RoomSweepReport,
+  SnapshotVersion,
+  SnapshotVersionInfo,
+  SnapshotWriteResult,
+  StoredSnapshot,
+} from './backplane.js';
+
+/**
+ * Backplane over the process-wide Redis connections (Sentinel or Cluster).
+ * There is one per process, identified by config.instanceId.
+ */
+export class RedisBackplane implements Backplane {
+  public readonly instanceId: string = config.instanceId;
+
+  public async publish(roomId: string, channel: RoomChannel, message: Buffer): Promise<void> {
+    if (channel === 'delta') {
+      await publishDelta(roomId, message);
+    } else {
+      await publishRoomCommand(roomId, message);
+    }
+  }
+
+  public subscribe(roomId: string): Promise<void> {
+    return subscribeToRoom(roomId);
+  }
+
+  public unsubscribe(roomId: string): Promise<void> {
+    return unsubscribeFromRoom(roomId);
+  }
+
+  public onMessage(handler: RoomMessageHandler): void {
+    setRoomMessageHandler(handler);
+  }
+
+  public isConnected(): boolean {
+    return redisClient.status === 'ready';
+  }
+
+  public onReconnect(handler: () => void): void {
+    redisClient.on('ready', handler);
+  }
+
+  public async saveSnapshot(
+    roomId: string,
+    data: string,
+    seq: number,
+    tick: number,
+    conditional: boolean = true
+  ): Promise<SnapshotWriteResult> {
+    const result = await saveRoomSnapshot(roomId, data, seq, tick, conditional);
+    return result.saved ? { saved: true, version: result.version } : { saved: false, storedSeq: result.storedSeq };
+  }
+
+  public loadSnapshot(roomId: string): Promise<StoredSnapshot | null> {
+    return loadRoomSnapshot(roomId);
+  }
+
+  public listSnapshotVersions(roomId: string): Promise<SnapshotVersionInfo[]> {
+    return listRoomSnapshotVersions(roomId);
+  }
+
+  public loadSnapshotVersion(roomId: string, version: number): Promise<SnapshotVersion | null> {
+    return loadRoomSnapshotVersion(roomId, version);
+  }
+
+  public async appendLog(roomId: string, data: string, seq: number): Promise<void> {
+    await appendDeltaToStream(roomId, data, seq);
+  }
+
+  public readLog(roomId: string, afterSeq: number): Promise<LogEntry[]> {
+    return readStreamSince(roomId, afterSeq);
+  }
+
+  public touchRoom(roomId: string): Promise<void> {
+    return refreshRoomKeys(roomId);
+  }
+
+  public deleteRoomData(roomId: string): Promise<void> {
+    return deleteRoomKeys(roomId);
+  }
+
+  public sweepOrphanedRooms(): Promise<RoomSweepReport | null> {
+    return sweepOrphanedRoomKeys();
+  }
+
+  public registerInstance(info: InstanceInfo): Promise<void> {
+    return registerInstance(info);
+  }
+
+  public unregisterInstance(): Promise<void> {
+    return unregisterInstance(this.instanceId);
+  }
+
+  public listInstances(): Promise<InstanceInfo[]> {
+    return listRegisteredInstances();
+  }
+
+  public addRoomInstances(roomIds: string[], ttlMs: number): Promise<void> {
+    return addRoomInstances(roomIds, ttlMs);
+  }
+
+  public removeRoomInstance(roomId: string): Promise<void> {
+    return removeRoomInstance(roomId);
+  }
+
+  public getRoomInstances(roomId: string): Promise<string[]> {
+    return getRoomInstanceIds(roomId);
+  }
+
+  public publishRoomListings(listings: RoomListing[]): Promise<void> {
+    return publishRoomListings(listings);
+  }
+
+  public removeRoomListing(roomId: string): Promise<void> {
+    return removeRoomListing(roomId);
+  }
+
+  public listRoomListings(): Promise<RoomListing[]> {
+    return listRoomListings();
+  }
+
+  public acquireLease(roomId: string, ttlMs: number): Promise<boolean> {
+    return acquireRoomLease(roomId, ttlMs);
+  }
+
+  public renewLease(roomId: string, ttlMs: number): Promise<boolean> {
+    return renewRoomLease(roomId, ttlMs);
+  }
+
+  public releaseLease(roomId: string): Promise<void> {
+    return releaseRoomLease(roomId);
+  }
+}
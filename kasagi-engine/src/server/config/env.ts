@@ -1,10 +1,16 @@
 import dotenv from 'dotenv';
 import { logger } from '../../utils/logger.js';
 import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { DEFAULT_TICK_RATE } from '../../shared/constants.js';
 
 dotenv.config();
 
-const requiredEnvVars = ['SENTINEL_1', 'SENTINEL_2', 'SENTINEL_3'] as const;
+// 'sentinel' (default) or 'cluster'
+const redisMode = process.env.REDIS_MODE === 'cluster' ? 'cluster' : 'sentinel';
+
+const requiredEnvVars =
+  redisMode === 'cluster' ? (['REDIS_CLUSTER_NODES'] as const) : (['SENTINEL_1', 'SENTINEL_2', 'SENTINEL_3'] as const);
 
 function validateEnv(): void {
   const missing: string[] = [];
@@ -23,6 +29,20 @@ function validateEnv(): void {
 
 validateEnv();
 
+/**
+ * Parse REDIS_CLUSTER_NODES ("host:port,host:port") into seed nodes.
+ */
+function parseClusterNodes(value: string | undefined): Array<{ host: string; port: number }> {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [host, port] = entry.split(':');
+      return { host, port: parseInt(port || '6379', 10) };
+    });
+}
+
 // Generate unique instance ID if not provided
 const instanceId = process.env.INSTANCE_ID || `instance_${randomUUID().slice(0, 8)}`;
 console.log('redis master name', process.env.REDIS_MASTER_NAME);
@@ -31,6 +51,8 @@ export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3000', 10),
   wsPort: parseInt(process.env.WS_PORT || '8080', 10),
+  // Offer permessage-deflate during the WebSocket upgrade
+  wsCompression: process.env.WS_COMPRESSION === 'true',
   
   // Unique identifier for this server instance
   instanceId,
@@ -45,11 +67,61 @@ export const config = {
     password: process.env.REDIS_PASSWORD,
   },
 
+  redis: {
+    mode: redisMode as 'sentinel' | 'cluster',
+    // Seed nodes for cluster mode; the rest of the topology is discovered
+    clusterNodes: parseClusterNodes(process.env.REDIS_CLUSTER_NODES),
+    password: process.env.REDIS_PASSWORD,
+    slotsRefreshIntervalMs: parseInt(process.env.REDIS_CLUSTER_REFRESH_MS || '5000', 10),
+  },
+
   // Snapshot configuration
   snapshotInterval: parseInt(process.env.SNAPSHOT_INTERVAL || '100', 10), // ticks
+  // Previous snapshots kept per room (room:{id}:snapshots) for point-in-time restore
+  snapshotHistorySize: parseInt(process.env.SNAPSHOT_HISTORY_SIZE || '10', 10),
+
+  // Durable per-room delta log (room:{id}:stream), replayed on top of snapshots
+  stream: {
+    enabled: process.env.REDIS_STREAM_ENABLED !== 'false',
+    // Approximate MAXLEN trim; should cover several snapshot intervals of deltas
+    maxLen: parseInt(process.env.REDIS_STREAM_MAXLEN || '10000', 10),
+  },
+
+  // Expiry of each room's snapshot, history and stream keys. Hosting instances
+  // refresh it, so only rooms nobody has held for ttlMs expire. 0 keeps keys
+  // forever and disables the sweeper.
+  roomKeys: {
+    ttlMs: parseInt(process.env.ROOM_KEY_TTL_MS || '86400000', 10),
+    refreshIntervalMs: parseInt(process.env.ROOM_KEY_REFRESH_MS || '60000', 10),
+    // How often one instance scans for room keys without an expiry (0 disables)
+    sweepIntervalMs: parseInt(process.env.ROOM_SWEEP_INTERVAL_MS || '3600000', 10),
+  },
+
+  // Live instances (kasagi:instances) and the instances hosting each room
+  // (room:{id}:instances). Entries lapse unless renewed by the heartbeat.
+  registry: {
+    // Where clients and load balancers reach this instance
+    address: process.env.INSTANCE_ADDRESS || `${hostname()}:${process.env.WS_PORT || '8080'}`,
+    heartbeatIntervalMs: parseInt(process.env.INSTANCE_HEARTBEAT_MS || '5000', 10),
+    ttlMs: parseInt(process.env.INSTANCE_TTL_MS || '15000', 10),
+    // How long listRooms reuses the merged room directory before reading it again
+    roomListCacheMs: parseInt(process.env.ROOM_LIST_CACHE_MS || '1000', 10),
+  },
+
+  // Each room is simulated by the one instance holding its lease (room:{id}:owner);
+  // other instances forward inputs and presence to it
+  ownership: {
+    leaseTtlMs: parseInt(process.env.ROOM_LEASE_TTL_MS || '5000', 10),
+    // Owners renew, and followers retry acquisition, this often
+    renewIntervalMs: parseInt(process.env.ROOM_LEASE_RENEW_MS || '1500', 10),
+  },
 
   logLevel: process.env.LOG_LEVEL || 'info',
   game: {
+    // Authoritative simulation rate for each room (ticks per second).
+    // Inputs received between ticks are queued and applied together.
+    tickRate: parseInt(process.env.TICK_RATE || String(DEFAULT_TICK_RATE), 10),
+
     // How long to keep a player's entity after their socket disconnects.
     // If they reconnect with the same playerId during this window, they resume.
     playerDisconnectGraceMs: parseInt(process.env.PLAYER_DISCONNECT_GRACE_MS || '30000', 10),
@@ -61,10 +133,42 @@ export const config = {
     // Enforce a single active socket per (roomId, playerId).
     // New join replaces the old connection.
     singleConnectionPerPlayer: process.env.SINGLE_CONNECTION_PER_PLAYER !== 'false',
+
+    // Recent deltas kept per room so reconnecting clients can catch up by seq
+    // instead of receiving a full snapshot.
+    deltaHistorySize: parseInt(process.env.DELTA_HISTORY_SIZE || '256', 10),
+
+    // Clients that ack and fall more than this many deltas behind get a
+    // replay or snapshot pushed, at most once per cooldown.
+    ackLagThreshold: parseInt(process.env.ACK_LAG_THRESHOLD || '20', 10),
+    ackResyncCooldownMs: parseInt(process.env.ACK_RESYNC_COOLDOWN_MS || '2000', 10),
+
+    // Remote deltas that arrive ahead of a missing seq are held this long
+    // waiting for the gap to fill before the room reloads from its snapshot.
+    remoteGapTimeoutMs: parseInt(process.env.REMOTE_GAP_TIMEOUT_MS || '500', 10),
+    // Reload immediately once this many out-of-order deltas are waiting.
+    remoteGapMaxBuffered: parseInt(process.env.REMOTE_GAP_MAX_BUFFERED || '64', 10),
+    // A reload that does not reach the missing seq is retried with doubling
+    // delays up to this long; the later deltas stay buffered meanwhile.
+    remoteGapMaxRetryMs: parseInt(process.env.REMOTE_GAP_MAX_RETRY_MS || '10000', 10),
+
+    // Deltas a room holds while the backplane is unreachable. Past this the
+    // queue is dropped and the room publishes its full state on reconnect.
+    outboundQueueSize: parseInt(process.env.OUTBOUND_QUEUE_SIZE || '512', 10),
+  },
+  delta: {
+    // Publish cross-instance deltas with the compact dictionary encoding
+    compactRedis: process.env.COMPACT_REDIS_DELTAS === 'true',
+    // Re-announce the full Redis dictionary every N compact publishes so
+    // instances that subscribed late can decode
+    compactKeyframeInterval: parseInt(process.env.COMPACT_KEYFRAME_INTERVAL || '100', 10),
   },
   debugUI: {
     enabled: debugUiEnabled,
     port: parseInt(process.env.DEBUG_UI_PORT || '3000', 10),
+    host: process.env.DEBUG_UI_HOST || '127.0.0.1',
+    // Admin (POST) endpoints answer 403 until a token is set
+    adminToken: process.env.DEBUG_UI_ADMIN_TOKEN || '',
   },
 } as const;
 
@@ -1,6 +1,17 @@
 import http from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
 import { config } from './config/env.js';
-import { getRoomStats, rooms } from './rooms/room-manager.js';
+import {
+  getRoomStats,
+  getRoom,
+  listSnapshotVersions,
+  restoreRoomSnapshot,
+  closeRoom,
+  sweepOrphanedRooms,
+  listInstances,
+  getRoomInstances,
+  listRooms,
+} from './rooms/room-manager.js';
 import { logger } from '../utils/logger.js';
 
 const debugLogger = logger.child({ module: 'debug-ui', instanceId: config.instanceId });
@@ -9,7 +20,7 @@ let server: http.Server | null = null;
 function buildStatsPayload() {
   const stats = getRoomStats();
   const roomDetails = stats.roomDetails.map((detail) => {
-    const room = rooms.get(detail.roomId);
+    const room = getRoom(detail.roomId);
     return {
       ...detail,
       entities: room?.state.entities ?? {},
@@ -41,34 +52,72 @@ const htmlTemplate = `
     <div class="meta" id="meta">Loading...</div>
     <table>
       <thead>
-        <tr><th>Room</th><th>Clients</th><th>Tick</th><th>Seq</th></tr>
+        <tr><th>Room</th><th>Type</th><th>Clients</th><th>Tick</th><th>Seq</th><th>Owner</th><th>Outbound</th></tr>
       </thead>
       <tbody id="rows"></tbody>
     </table>
+    <h2>Directory (all instances)</h2>
+    <table>
+      <thead>
+        <tr><th>Room</th><th>Type</th><th>Players</th><th>Capacity</th><th>Tags</th><th>Instances</th></tr>
+      </thead>
+      <tbody id="directory"></tbody>
+    </table>
     <h2>Last payload (click row to inspect)</h2>
     <pre id="payload"></pre>
     <script>
+      // Room ids and tags come from clients, so cells are set as text, never HTML
+      function appendCells(tr, values) {
+        values.forEach((value) => {
+          const td = document.createElement('td');
+          td.textContent = String(value);
+          tr.appendChild(td);
+        });
+      }
+
       async function refresh() {
         try {
           const resp = await fetch('/debug/rooms');
           if (!resp.ok) throw new Error(resp.statusText);
           const data = await resp.json();
           document.getElementById('meta').textContent =
-            'rooms=' + data.totalRooms + ' clients=' + data.totalClients;
+            'rooms=' + data.totalRooms + ' clients=' + data.totalClients +
+            ' outbound=' + data.totalOutboundQueued;
           const rows = document.getElementById('rows');
           rows.innerHTML = '';
           data.roomDetails.forEach((room) => {
             const tr = document.createElement('tr');
-            tr.innerHTML =
-              '<td>' + room.roomId + '</td>' +
-              '<td>' + room.clients + '</td>' +
-              '<td>' + room.tick + '</td>' +
-              '<td>' + room.seq + '</td>';
+            appendCells(tr, [
+              room.roomId,
+              room.roomType,
+              room.clients,
+              room.tick,
+              room.seq,
+              room.owner ? 'yes' : 'no',
+              room.outboundQueued,
+            ]);
             tr.addEventListener('click', () => {
               document.getElementById('payload').textContent = JSON.stringify(room.entities, null, 2);
             });
             rows.appendChild(tr);
           });
+          const dirResp = await fetch('/debug/directory?limit=100');
+          if (!dirResp.ok) throw new Error(dirResp.statusText);
+          const directory = await dirResp.json();
+          const dirRows = document.getElementById('directory');
+          dirRows.innerHTML = '';
+          directory.rooms.forEach((room) => {
+            const tr = document.createElement('tr');
+            appendCells(tr, [
+              room.roomId,
+              room.roomType,
+              room.players,
+              room.capacity ?? '-',
+              room.tags.join(', '),
+              room.instances,
+            ]);
+            dirRows.appendChild(tr);
+          });
         } catch (err) {
           document.getElementById('meta').textContent = 'Error: ' + err.message;
         }
@@ -81,11 +130,160 @@ const htmlTemplate = `
 `;
 
 function sendJson(res: http.ServerResponse) {
-  const payload = buildStatsPayload();
-  const body = JSON.stringify(payload);
+  writeJson(res, 200, buildStatsPayload());
+}
+
+function writeJson(res: http.ServerResponse, status: number, payload: unknown) {
   res.setHeader('content-type', 'application/json; charset=utf-8');
-  res.writeHead(200);
-  res.end(body);
+  res.writeHead(status);
+  res.end(JSON.stringify(payload));
+}
+
+/**
+ * Decode a room id taken from the path; null when it has malformed escapes.
+ */
+function decodeRoomId(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check `Authorization: Bearer <DEBUG_UI_ADMIN_TOKEN>` on a destructive
+ * request, answering it when the check fails. Without a configured token
+ * the admin endpoints are off.
+ */
+function authorizeAdmin(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  const token = config.debugUI.adminToken;
+  if (!token) {
+    writeJson(res, 403, { error: 'Admin endpoints are disabled; set DEBUG_UI_ADMIN_TOKEN' });
+    return false;
+  }
+
+  const given = Buffer.from(req.headers.authorization ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    writeJson(res, 401, { error: 'Invalid admin token' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Admin endpoints for a room's snapshot history:
+ *   GET  /debug/rooms/:roomId/snapshots                    list versions
+ *   POST /debug/rooms/:roomId/snapshots/:version/restore   restore a version
+ */
+async function handleSnapshotRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  roomId: string,
+  version: string | undefined
+): Promise<void> {
+  if (version === undefined) {
+    if (req.method !== 'GET') {
+      writeJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    writeJson(res, 200, { roomId, versions: await listSnapshotVersions(roomId) });
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    writeJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+  if (!authorizeAdmin(req, res)) {
+    return;
+  }
+
+  const versionNumber = parseInt(version, 10);
+  const result = await restoreRoomSnapshot(roomId, versionNumber);
+  debugLogger.warn({ roomId, version: versionNumber, result }, 'Snapshot restore requested via debug UI');
+  writeJson(res, result === 'not-found' ? 404 : 200, { roomId, version: versionNumber, result });
+}
+
+/**
+ * Admin endpoints for room lifecycle:
+ *   POST /debug/rooms/:roomId/close   close a room everywhere and delete its data
+ *   POST /debug/sweep                 sweep orphaned room data now
+ */
+async function handleMaintenanceRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  roomId: string | undefined
+): Promise<void> {
+  if (req.method !== 'POST') {
+    writeJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+  if (!authorizeAdmin(req, res)) {
+    return;
+  }
+
+  if (roomId !== undefined) {
+    debugLogger.warn({ roomId }, 'Room close requested via debug UI');
+    await closeRoom(roomId);
+    writeJson(res, 200, { roomId, result: 'closed' });
+    return;
+  }
+
+  const report = await sweepOrphanedRooms();
+  writeJson(res, report ? 200 : 409, report ?? { error: 'Sweep skipped or failed, see logs' });
+}
+
+/**
+ * Cluster-wide room directory, as served to lobby clients:
+ *   GET /debug/directory?roomType=&tag=&hasSpace=true&offset=&limit=
+ * `tag` may be repeated; every given tag must match.
+ */
+async function handleRoomListRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (req.method !== 'GET') {
+    writeJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+  const offset = params.has('offset') ? parseInt(params.get('offset')!, 10) : undefined;
+  const limit = params.has('limit') ? parseInt(params.get('limit')!, 10) : undefined;
+
+  writeJson(
+    res,
+    200,
+    await listRooms({
+      roomType: params.get('roomType') ?? undefined,
+      tags: params.getAll('tag'),
+      hasSpace: params.get('hasSpace') === 'true',
+      offset: offset !== undefined && offset >= 0 ? offset : undefined,
+      limit: limit !== undefined && limit >= 1 ? limit : undefined,
+    })
+  );
+}
+
+/**
+ * Instance directory endpoints, e.g. for routing a join to an instance
+ * already hosting the room:
+ *   GET /debug/instances                 live instances
+ *   GET /debug/rooms/:roomId/instances   live instances hosting a room
+ */
+async function handleDirectoryRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  roomId: string | undefined
+): Promise<void> {
+  if (req.method !== 'GET') {
+    writeJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  if (roomId !== undefined) {
+    writeJson(res, 200, { roomId, instances: await getRoomInstances(roomId) });
+    return;
+  }
+
+  writeJson(res, 200, { instances: await listInstances() });
 }
 
 export function startDebugUi(): void {
@@ -107,6 +305,56 @@ export function startDebugUi(): void {
       return;
     }
 
+    const snapshotMatch = path.match(/^\/debug\/rooms\/([^/]+)\/snapshots(?:\/(\d+)\/restore)?$/);
+    if (snapshotMatch) {
+      const roomId = decodeRoomId(snapshotMatch[1]);
+      if (roomId === null) {
+        writeJson(res, 400, { error: 'Malformed room id' });
+        return;
+      }
+      handleSnapshotRequest(req, res, roomId, snapshotMatch[2]).catch((err) => {
+        debugLogger.error({ error: (err as Error).message, path }, 'Snapshot request failed');
+        writeJson(res, 500, { error: (err as Error).message });
+      });
+      return;
+    }
+
+    const closeMatch = path.match(/^\/debug\/rooms\/([^/]+)\/close$/);
+    if (closeMatch || path === '/debug/sweep') {
+      const roomId = closeMatch ? decodeRoomId(closeMatch[1]) : undefined;
+      if (roomId === null) {
+        writeJson(res, 400, { error: 'Malformed room id' });
+        return;
+      }
+      handleMaintenanceRequest(req, res, roomId).catch((err) => {
+        debugLogger.error({ error: (err as Error).message, path }, 'Maintenance request failed');
+        writeJson(res, 500, { error: (err as Error).message });
+      });
+      return;
+    }
+
+    const instancesMatch = path.match(/^\/debug\/rooms\/([^/]+)\/instances$/);
+    if (instancesMatch || path === '/debug/instances') {
+      const roomId = instancesMatch ? decodeRoomId(instancesMatch[1]) : undefined;
+      if (roomId === null) {
+        writeJson(res, 400, { error: 'Malformed room id' });
+        return;
+      }
+      handleDirectoryRequest(req, res, roomId).catch((err) => {
+        debugLogger.error({ error: (err as Error).message, path }, 'Directory request failed');
+        writeJson(res, 500, { error: (err as Error).message });
+      });
+      return;
+    }
+
+    if (path === '/debug/directory') {
+      handleRoomListRequest(req, res).catch((err) => {
+        debugLogger.error({ error: (err as Error).message, path }, 'Room directory request failed');
+        writeJson(res, 500, { error: (err as Error).message });
+      });
+      return;
+    }
+
     if (path === '/debug' || path === '/debug/') {
       res.setHeader('content-type', 'text/html; charset=utf-8');
       res.writeHead(200);
@@ -118,8 +366,8 @@ export function startDebugUi(): void {
     res.end('Not found');
   });
 
-  server.listen(config.debugUI.port, () => {
-    debugLogger.info({ port: config.debugUI.port }, 'Debug UI listening');
+  server.listen(config.debugUI.port, config.debugUI.host, () => {
+    debugLogger.info({ host: config.debugUI.host, port: config.debugUI.port }, 'Debug UI listening');
   });
 }
 
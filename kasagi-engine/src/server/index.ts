@@ -3,7 +3,16 @@ import { logger } from '../utils/logger.js';
 import { redisClient } from './redis/redis-client.js';
 import { redisSubscriber } from './redis/redis-subscriber.js';
 import { startWsServer, stopWsServer } from './websocket/ws-server.js';
-import { saveAllSnapshots } from './rooms/room-manager.js';
+import {
+  initRoomManager,
+  saveAllSnapshots,
+  releaseAllOwnership,
+  startRoomMaintenance,
+  stopRoomMaintenance,
+  startInstanceHeartbeat,
+  stopInstanceHeartbeat,
+} from './rooms/room-manager.js';
+import { RedisBackplane } from './backplane/redis-backplane.js';
 import { startDebugUi, stopDebugUi } from './debug-ui.js';
 
 const mainLogger = logger.child({ module: 'main', instanceId: config.instanceId });
@@ -34,6 +43,10 @@ async function bootstrap(): Promise<void> {
 
   mainLogger.info('Redis connections established');
 
+  initRoomManager(new RedisBackplane());
+  startRoomMaintenance();
+  startInstanceHeartbeat();
+
   // Start WebSocket server
   startWsServer();
   mainLogger.info({ port: config.wsPort }, 'WebSocket server started');
@@ -55,7 +68,10 @@ async function bootstrap(): Promise<void> {
     try {
       // Save all room snapshots before shutdown
       mainLogger.info('Saving room snapshots...');
+      stopRoomMaintenance();
       await saveAllSnapshots();
+      await releaseAllOwnership();
+      await stopInstanceHeartbeat();
       
       // Stop WebSocket server
       await stopWsServer();
@@ -0,0 +1,99 @@
+import { Redis, Cluster } from 'ioredis';
+import type { Logger } from 'pino';
+import { config } from '../config/env.js';
+
+/** A connection in either deployment mode; both expose the same command API. */
+export type RedisConnection = Redis | Cluster;
+
+// NAT mapping for local development
+// When running outside Docker, Sentinel returns Docker-internal hostnames
+// which need to be mapped to localhost with correct port mappings
+const localNatMap: Record<string, { host: string; port: number }> = {
+  'redis-master:6379': { host: '127.0.0.1', port: 6380 },
+  'redis-replica-1:6379': { host: '127.0.0.1', port: 6381 },
+  'redis-replica-2:6379': { host: '127.0.0.1', port: 6382 },
+};
+
+const RECONNECT_ERRORS = ['READONLY', 'ECONNRESET', 'ETIMEDOUT'];
+
+/**
+ * Create a Redis connection for the configured mode (config.redis.mode).
+ * Subscriber connections in cluster mode use one sharded subscriber per
+ * master so SSUBSCRIBE follows slot migrations.
+ */
+export function createRedisConnection(connLogger: Logger, options: { subscriber?: boolean } = {}): RedisConnection {
+  const retryStrategy = (times: number): number => {
+    const delay = Math.min(times * 100, 3000);
+    connLogger.warn({ attempt: times, delay }, 'Reconnecting to Redis...');
+    return delay;
+  };
+
+  const reconnectOnError = (err: Error): boolean => {
+    const shouldReconnect = RECONNECT_ERRORS.some((e) => err.message.includes(e));
+    if (shouldReconnect) {
+      connLogger.warn({ error: err.message }, 'Reconnecting due to error');
+    }
+    return shouldReconnect;
+  };
+
+  if (config.redis.mode === 'cluster') {
+    const cluster = new Cluster([...config.redis.clusterNodes], {
+      // Enable natMap only in development (when running outside Docker)
+      ...(config.nodeEnv === 'development' && { natMap: localNatMap }),
+      clusterRetryStrategy: retryStrategy,
+      slotsRefreshInterval: config.redis.slotsRefreshIntervalMs,
+      shardedSubscribers: options.subscriber ?? false,
+      enableReadyCheck: true,
+      lazyConnect: false,
+      redisOptions: {
+        password: config.redis.password,
+        reconnectOnError,
+        maxRetriesPerRequest: null,
+      },
+    });
+
+    watchClusterTopology(cluster, connLogger);
+    return cluster;
+  }
+
+  return new Redis({
+    sentinels: [...config.sentinel.hosts],
+    name: config.sentinel.masterName,
+    password: config.sentinel.password,
+
+    // Enable natMap only in development (when running outside Docker)
+    ...(config.nodeEnv === 'development' && { natMap: localNatMap }),
+
+    // Auto-reconnect settings for failover
+    retryStrategy,
+    reconnectOnError,
+
+    maxRetriesPerRequest: null,
+    enableReadyCheck: true,
+    lazyConnect: false,
+    // Subscriber connections restore their own subscriptions on 'ready'
+    ...(options.subscriber && { autoResubscribe: false }),
+  });
+}
+
+/**
+ * Log cluster topology changes. ioredis re-routes commands and moves
+ * sharded subscriptions itself once the slot map is refreshed.
+ */
+function watchClusterTopology(cluster: Cluster, connLogger: Logger): void {
+  cluster.on('+node', (node: Redis) => {
+    connLogger.info({ node: `${node.options.host}:${node.options.port}` }, 'Cluster node added');
+  });
+
+  cluster.on('-node', (node: Redis) => {
+    connLogger.warn({ node: `${node.options.host}:${node.options.port}` }, 'Cluster node removed');
+  });
+
+  cluster.on('node error', (err: Error, node: string) => {
+    connLogger.error({ error: err.message, node }, 'Cluster node error');
+  });
+
+  cluster.on('refresh', () => {
+    connLogger.debug({ nodes: cluster.nodes('master').length }, 'Cluster slot map refreshed');
+  });
+}
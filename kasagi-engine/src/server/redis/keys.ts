@@ -0,0 +1,43 @@
+import { config } from '../config/env.js';
+
+export type RoomKeySuffix =
+  | 'snapshot'
+  | 'snapshots'
+  | 'channel'
+  | 'commands'
+  | 'stream'
+  | 'streamIndex'
+  | 'owner'
+  | 'instances';
+
+/**
+ * Build the Redis key or channel name for one of a room's resources.
+ * In cluster mode the room id is a hash tag (`room:{id}:snapshot`) so all of
+ * a room's keys and channels live in the same slot. Sentinel deployments keep
+ * the untagged names so existing snapshots stay readable.
+ */
+export function roomKey(roomId: string, suffix: RoomKeySuffix): string {
+  return config.redis.mode === 'cluster' ? `room:{${roomId}}:${suffix}` : `room:${roomId}:${suffix}`;
+}
+
+/**
+ * Extract the room id and resource from a room key or channel name, in either form.
+ */
+export function parseRoomKey(key: string): { roomId: string; suffix: RoomKeySuffix } | null {
+  const match = key.match(/^room:(?:\{([^{}]+)\}|([^:{}]+)):(snapshot|snapshots|channel|commands|stream|streamIndex|owner|instances)$/);
+  if (!match) {
+    return null;
+  }
+  return { roomId: match[1] ?? match[2], suffix: match[3] as RoomKeySuffix };
+}
+
+/**
+ * Extract the room id and resource from a room channel name, in either form.
+ */
+export function parseRoomChannel(channel: string): { roomId: string; suffix: 'channel' | 'commands' } | null {
+  const parsed = parseRoomKey(channel);
+  if (!parsed || (parsed.suffix !== 'channel' && parsed.suffix !== 'commands')) {
+    return null;
+  }
+  return { roomId: parsed.roomId, suffix: parsed.suffix };
+}
@@ -1,46 +1,12 @@
-import { Redis } from 'ioredis';
+import { Cluster } from 'ioredis';
 import { config } from '../config/env.js';
 import { logger } from '../../utils/logger.js';
+import { createRedisConnection, type RedisConnection } from './connection.js';
+import { roomKey, parseRoomKey, type RoomKeySuffix } from './keys.js';
 
 const redisLogger = logger.child({ module: 'redis-client', instanceId: config.instanceId });
 
-// NAT mapping for local development
-// When running outside Docker, Sentinel returns Docker-internal hostnames
-// which need to be mapped to localhost with correct port mappings
-const localNatMap: Record<string, { host: string; port: number }> = {
-  'redis-master:6379': { host: '127.0.0.1', port: 6380 },
-  'redis-replica-1:6379': { host: '127.0.0.1', port: 6381 },
-  'redis-replica-2:6379': { host: '127.0.0.1', port: 6382 },
-};
-
-export const redisClient = new Redis({
-  sentinels: [...config.sentinel.hosts],
-  name: config.sentinel.masterName,
-  password: config.sentinel.password,
-  
-  // Enable natMap only in development (when running outside Docker)
-  ...(config.nodeEnv === 'development' && { natMap: localNatMap }),
-  
-  // Auto-reconnect settings for failover
-  retryStrategy(times: number): number {
-    const delay = Math.min(times * 100, 3000);
-    redisLogger.warn({ attempt: times, delay }, 'Reconnecting to Redis...');
-    return delay;
-  },
-  
-  reconnectOnError(err: Error): boolean {
-    const targetErrors = ['READONLY', 'ECONNRESET', 'ETIMEDOUT'];
-    const shouldReconnect = targetErrors.some((e) => err.message.includes(e));
-    if (shouldReconnect) {
-      redisLogger.warn({ error: err.message }, 'Reconnecting due to error');
-    }
-    return shouldReconnect;
-  },
-  
-  maxRetriesPerRequest: null,
-  enableReadyCheck: true,
-  lazyConnect: false,
-});
+export const redisClient: RedisConnection = createRedisConnection(redisLogger);
 
 // Connection event handlers
 redisClient.on('connect', () => {
@@ -80,14 +46,24 @@ redisClient.on('-failover', () => {
 // ============================================================================
 
 /**
- * Publish a delta to a room channel.
- * Uses base64 encoding for safe string transmission.
+ * Publish to a room channel; sharded (SPUBLISH) in cluster mode so the
+ * message only travels within the room's shard.
+ */
+async function publishToRoomChannel(channel: string, message: Buffer): Promise<number> {
+  const result = config.redis.mode === 'cluster'
+    ? await redisClient.spublish(channel, message)
+    : await redisClient.publish(channel, message);
+  return Number(result);
+}
+
+/**
+ * Publish an encoded (MessagePack) delta to a room channel as raw bytes.
  */
-export async function publishDelta(roomId: string, encodedDeltaBase64: string): Promise<number> {
-  const channel = `room:${roomId}:channel`;
+export async function publishDelta(roomId: string, encodedDelta: Buffer): Promise<number> {
+  const channel = roomKey(roomId, 'channel');
   
   try {
-    const subscriberCount = await redisClient.publish(channel, encodedDeltaBase64);
+    const subscriberCount = await publishToRoomChannel(channel, encodedDelta);
     redisLogger.info({ roomId, channel, subscriberCount }, 'Delta published to Redis');
     return subscriberCount;
   } catch (err) {
@@ -96,30 +72,312 @@ export async function publishDelta(roomId: string, encodedDeltaBase64: string):
   }
 }
 
+/**
+ * Publish a command (forwarded input or presence) to a room's owner instance.
+ */
+export async function publishRoomCommand(roomId: string, encodedCommand: Buffer): Promise<number> {
+  const channel = roomKey(roomId, 'commands');
+
+  try {
+    const subscriberCount = await publishToRoomChannel(channel, encodedCommand);
+    redisLogger.debug({ roomId, channel, subscriberCount }, 'Room command published to Redis');
+    return subscriberCount;
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to publish room command');
+    throw err;
+  }
+}
+
+// ============================================================================
+// Ownership Lease Helpers
+// ============================================================================
+
+// Only the current holder may extend or drop a lease
+const RENEW_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Try to become the owner of a room. Succeeds only if no lease is held.
+ */
+export async function acquireRoomLease(roomId: string, ttlMs: number = config.ownership.leaseTtlMs): Promise<boolean> {
+  const key = roomKey(roomId, 'owner');
+
+  try {
+    const result = await redisClient.set(key, config.instanceId, 'PX', ttlMs, 'NX');
+    if (result === 'OK') {
+      redisLogger.info({ roomId, ttlMs }, 'Room lease acquired');
+      return true;
+    }
+    return false;
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to acquire room lease');
+    return false;
+  }
+}
+
+/**
+ * Extend this instance's lease on a room. Returns false if the lease was lost.
+ */
+export async function renewRoomLease(roomId: string, ttlMs: number = config.ownership.leaseTtlMs): Promise<boolean> {
+  const key = roomKey(roomId, 'owner');
+
+  try {
+    const result = await redisClient.eval(RENEW_LEASE_SCRIPT, 1, key, config.instanceId, ttlMs);
+    return result === 1;
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to renew room lease');
+    return false;
+  }
+}
+
+/**
+ * Drop this instance's lease on a room, if it still holds it.
+ */
+export async function releaseRoomLease(roomId: string): Promise<void> {
+  const key = roomKey(roomId, 'owner');
+
+  try {
+    await redisClient.eval(RELEASE_LEASE_SCRIPT, 1, key, config.instanceId);
+    redisLogger.info({ roomId }, 'Room lease released');
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to release room lease');
+  }
+}
+
+/**
+ * Get the instanceId currently holding a room's lease.
+ */
+export async function getRoomLeaseOwner(roomId: string): Promise<string | null> {
+  const key = roomKey(roomId, 'owner');
+
+  try {
+    return await redisClient.get(key);
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to read room lease');
+    return null;
+  }
+}
+
+// ============================================================================
+// Stream Helpers
+// ============================================================================
+
+// Append a delta to the stream and record its id under its seq in the
+// stream index (a sorted set), so reads can start at a given seq. The index
+// is trimmed to the same length as the stream.
+const APPEND_STREAM_SCRIPT = `
+local id = redis.call('XADD', KEYS[1], 'MAXLEN', '~', ARGV[3], '*', 'seq', ARGV[1], 'data', ARGV[2])
+redis.call('ZADD', KEYS[2], ARGV[1], id)
+redis.call('ZREMRANGEBYRANK', KEYS[2], 0, -tonumber(ARGV[3]) - 1)
+local ttl = tonumber(ARGV[4])
+if ttl > 0 then
+  redis.call('PEXPIRE', KEYS[1], ttl)
+  redis.call('PEXPIRE', KEYS[2], ttl)
+end
+return id
+`;
+
+/**
+ * Append a delta to the room's durable stream.
+ * Trims approximately to config.stream.maxLen entries and refreshes the
+ * stream's expiry (config.roomKeys.ttlMs).
+ */
+export async function appendDeltaToStream(
+  roomId: string,
+  encodedDeltaBase64: string,
+  seq: number
+): Promise<string | null> {
+  const key = roomKey(roomId, 'stream');
+
+  try {
+    const id = (await redisClient.eval(
+      APPEND_STREAM_SCRIPT,
+      2,
+      key,
+      roomKey(roomId, 'streamIndex'),
+      seq,
+      encodedDeltaBase64,
+      config.stream.maxLen,
+      config.roomKeys.ttlMs
+    )) as string | null;
+
+    redisLogger.debug({ roomId, seq, id }, 'Delta appended to stream');
+    return id;
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId, seq }, 'Failed to append delta to stream');
+    throw err;
+  }
+}
+
+/**
+ * Read stream entries with a seq greater than afterSeq, oldest first.
+ *
+ * The read starts at the first entry the stream index holds for a later
+ * seq, which relies on seq growing with stream order (owner rooms). With
+ * afterSeq 0, as 'lww' rooms read, or without an index the whole stream
+ * is read.
+ */
+export async function readStreamSince(
+  roomId: string,
+  afterSeq: number
+): Promise<Array<{ seq: number; data: string }>> {
+  const key = roomKey(roomId, 'stream');
+  const pageSize = 500;
+  const entries: Array<{ seq: number; data: string }> = [];
+  let start = '-';
+
+  try {
+    if (afterSeq > 0) {
+      const indexKey = roomKey(roomId, 'streamIndex');
+      const [firstId] = await redisClient.zrangebyscore(indexKey, `(${afterSeq}`, '+inf', 'LIMIT', 0, 1);
+      if (firstId) {
+        start = firstId;
+      } else if (await redisClient.exists(indexKey)) {
+        return entries;
+      }
+    }
+
+    for (;;) {
+      const page = await redisClient.xrange(key, start, '+', 'COUNT', pageSize);
+
+      for (const [, fields] of page) {
+        const values = fieldsToObject(fields);
+        const seq = parseInt(values.seq, 10);
+        if (seq > afterSeq && values.data) {
+          entries.push({ seq, data: values.data });
+        }
+      }
+
+      if (page.length < pageSize) break;
+      start = `(${page[page.length - 1][0]}`;
+    }
+
+    redisLogger.debug({ roomId, afterSeq, count: entries.length }, 'Stream entries read');
+    return entries;
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to read stream');
+    return [];
+  }
+}
+
+/**
+ * Delete a room's delta stream and its index.
+ */
+export async function deleteRoomStream(roomId: string): Promise<void> {
+  const key = roomKey(roomId, 'stream');
+
+  try {
+    await redisClient.del(key, roomKey(roomId, 'streamIndex'));
+    redisLogger.debug({ roomId }, 'Stream deleted from Redis');
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to delete stream');
+  }
+}
+
+function fieldsToObject(fields: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    result[fields[i]] = fields[i + 1];
+  }
+  return result;
+}
+
 // ============================================================================
 // Snapshot Helpers
 // ============================================================================
 
+// Overwrite the current snapshot and push a copy onto the room's history list,
+// numbering it with the snapshot hash's version counter. Conditional writes
+// (ARGV[7] == '1') only replace a snapshot with a lower seq.
+// Returns {version, storedSeq}; version is 0 when the write was rejected.
+const SAVE_SNAPSHOT_SCRIPT = `
+local storedSeq = tonumber(redis.call('HGET', KEYS[1], 'seq'))
+if ARGV[7] == '1' and storedSeq and storedSeq >= tonumber(ARGV[2]) then
+  return {0, storedSeq}
+end
+local version = redis.call('HINCRBY', KEYS[1], 'version', 1)
+redis.call('HSET', KEYS[1], 'data', ARGV[1], 'seq', ARGV[2], 'tick', ARGV[3], 'timestamp', ARGV[4], 'instanceId', ARGV[5])
+local historySize = tonumber(ARGV[6])
+if historySize > 0 then
+  redis.call('LPUSH', KEYS[2], cjson.encode({
+    version = version,
+    data = ARGV[1],
+    seq = tonumber(ARGV[2]),
+    tick = tonumber(ARGV[3]),
+    timestamp = tonumber(ARGV[4]),
+    instanceId = ARGV[5],
+  }))
+  redis.call('LTRIM', KEYS[2], 0, historySize - 1)
+end
+local ttl = tonumber(ARGV[8])
+if ttl > 0 then
+  redis.call('PEXPIRE', KEYS[1], ttl)
+  redis.call('PEXPIRE', KEYS[2], ttl)
+end
+return {version, tonumber(ARGV[2])}
+`;
+
+interface SnapshotHistoryEntry {
+  version: number;
+  data: string;
+  seq: number;
+  tick: number;
+  timestamp: number;
+  instanceId: string;
+}
+
 /**
- * Save a room snapshot to Redis.
+ * Save a room snapshot to Redis, keeping the last
+ * config.snapshotHistorySize versions in the room's history.
+ *
+ * Conditional writes are atomic compare-and-set on seq: they are rejected
+ * (saved: false) unless the stored snapshot is older, so an instance with a
+ * stale view can never overwrite a newer snapshot.
  */
 export async function saveRoomSnapshot(
   roomId: string,
   data: string,
   seq: number,
-  tick: number
-): Promise<void> {
-  const key = `room:${roomId}:snapshot`;
+  tick: number,
+  conditional: boolean = true
+): Promise<{ saved: boolean; version: number; storedSeq: number }> {
+  const key = roomKey(roomId, 'snapshot');
+  const historyKey = roomKey(roomId, 'snapshots');
   
   try {
-    await redisClient.hset(key, {
+    const [version, storedSeq] = (await redisClient.eval(
+      SAVE_SNAPSHOT_SCRIPT,
+      2,
+      key,
+      historyKey,
       data,
-      seq: seq.toString(),
-      tick: tick.toString(),
-      timestamp: Date.now().toString(),
-      instanceId: config.instanceId,
-    });
-    redisLogger.info({ roomId, seq, tick }, 'Snapshot saved to Redis');
+      seq,
+      tick,
+      Date.now(),
+      config.instanceId,
+      config.snapshotHistorySize,
+      conditional ? '1' : '0',
+      config.roomKeys.ttlMs
+    )) as [number, number];
+
+    if (version === 0) {
+      redisLogger.debug({ roomId, seq, storedSeq }, 'Snapshot write rejected, stored snapshot is not older');
+      return { saved: false, version, storedSeq };
+    }
+
+    redisLogger.info({ roomId, seq, tick, version }, 'Snapshot saved to Redis');
+    return { saved: true, version, storedSeq };
   } catch (err) {
     redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to save snapshot');
     throw err;
@@ -135,7 +393,7 @@ export async function loadRoomSnapshot(roomId: string): Promise<{
   tick: number;
   timestamp: number;
 } | null> {
-  const key = `room:${roomId}:snapshot`;
+  const key = roomKey(roomId, 'snapshot');
   
   try {
     const snapshot = await redisClient.hgetall(key);
@@ -160,17 +418,361 @@ export async function loadRoomSnapshot(roomId: string): Promise<{
 }
 
 /**
- * Delete a room snapshot from Redis.
+ * List a room's stored snapshot versions, newest first (without their data).
+ */
+export async function listRoomSnapshotVersions(roomId: string): Promise<Array<Omit<SnapshotHistoryEntry, 'data'>>> {
+  const entries = await readSnapshotHistory(roomId);
+  return entries.map(({ data: _data, ...info }) => info);
+}
+
+/**
+ * Load one version from a room's snapshot history.
+ */
+export async function loadRoomSnapshotVersion(roomId: string, version: number): Promise<SnapshotHistoryEntry | null> {
+  const entries = await readSnapshotHistory(roomId);
+  return entries.find((entry) => entry.version === version) ?? null;
+}
+
+async function readSnapshotHistory(roomId: string): Promise<SnapshotHistoryEntry[]> {
+  const key = roomKey(roomId, 'snapshots');
+
+  try {
+    const entries = await redisClient.lrange(key, 0, -1);
+    return entries.map((entry) => JSON.parse(entry) as SnapshotHistoryEntry);
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to read snapshot history');
+    return [];
+  }
+}
+
+/**
+ * Delete a room snapshot (and its history) from Redis.
  */
 export async function deleteRoomSnapshot(roomId: string): Promise<void> {
-  const key = `room:${roomId}:snapshot`;
+  const key = roomKey(roomId, 'snapshot');
   
   try {
-    await redisClient.del(key);
+    await redisClient.del(key, roomKey(roomId, 'snapshots'));
     redisLogger.debug({ roomId }, 'Snapshot deleted from Redis');
   } catch (err) {
     redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to delete snapshot');
   }
 }
 
+// ============================================================================
+// Room Key Expiry
+// ============================================================================
+
+// Only one instance sweeps per interval
+const SWEEP_LOCK_KEY = 'kasagi:sweeper';
+
+// Room resources stored as keys that expire with config.roomKeys.ttlMs
+// (channels are not keys and leases always carry their own expiry)
+const EXPIRING_SUFFIXES: ReadonlySet<RoomKeySuffix> = new Set(['snapshot', 'snapshots', 'stream', 'streamIndex']);
+
+export interface RoomKeySweepReport {
+  scannedKeys: number;
+  /** Keys without an expiry whose last write is older than the TTL; deleted. */
+  removedKeys: number;
+  /** Keys without an expiry that are still recent; given the remaining TTL. */
+  adoptedKeys: number;
+  orphanedRooms: string[];
+}
+
+/**
+ * Push back the expiry of a room's keys while the room is in use.
+ */
+export async function refreshRoomKeys(roomId: string): Promise<void> {
+  const ttlMs = config.roomKeys.ttlMs;
+  if (ttlMs <= 0) {
+    return;
+  }
+
+  try {
+    const pipeline = redisClient.pipeline();
+    for (const suffix of EXPIRING_SUFFIXES) {
+      pipeline.pexpire(roomKey(roomId, suffix), ttlMs);
+    }
+    await pipeline.exec();
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to refresh room key expiry');
+  }
+}
+
+/**
+ * Delete every key of a room: snapshot, history, stream and its index, lease and instance index.
+ */
+export async function deleteRoomKeys(roomId: string): Promise<void> {
+  try {
+    await redisClient.del(
+      roomKey(roomId, 'snapshot'),
+      roomKey(roomId, 'snapshots'),
+      roomKey(roomId, 'stream'),
+      roomKey(roomId, 'streamIndex'),
+      roomKey(roomId, 'owner'),
+      roomKey(roomId, 'instances')
+    );
+    redisLogger.info({ roomId }, 'Room keys deleted from Redis');
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to delete room keys');
+    throw err;
+  }
+}
+
+/**
+ * Find room keys that have no expiry (written before expiry was enabled, or
+ * by hand). Those not written to within config.roomKeys.ttlMs are deleted;
+ * the rest get the remainder of the TTL. Returns null if another instance
+ * holds the sweep lock.
+ */
+export async function sweepOrphanedRoomKeys(): Promise<RoomKeySweepReport | null> {
+  const ttlMs = config.roomKeys.ttlMs;
+  const lockMs = Math.max(config.roomKeys.sweepIntervalMs, 1000);
+
+  if ((await redisClient.set(SWEEP_LOCK_KEY, config.instanceId, 'PX', lockMs, 'NX')) !== 'OK') {
+    return null;
+  }
+
+  const report: RoomKeySweepReport = { scannedKeys: 0, removedKeys: 0, adoptedKeys: 0, orphanedRooms: [] };
+  const orphanedRooms: Set<string> = new Set();
+  const nodes = redisClient instanceof Cluster ? redisClient.nodes('master') : [redisClient];
+
+  for (const node of nodes) {
+    for await (const keys of node.scanStream({ match: 'room:*', count: 500 })) {
+      for (const key of keys as string[]) {
+        const parsed = parseRoomKey(key);
+        if (!parsed || !EXPIRING_SUFFIXES.has(parsed.suffix)) continue;
+
+        report.scannedKeys++;
+        if ((await redisClient.pttl(key)) !== -1) continue;
+
+        const age = Date.now() - ((await lastWriteAt(key, parsed.suffix)) ?? 0);
+        if (age >= ttlMs) {
+          await redisClient.del(key);
+          report.removedKeys++;
+          orphanedRooms.add(parsed.roomId);
+        } else {
+          await redisClient.pexpire(key, ttlMs - age);
+          report.adoptedKeys++;
+        }
+      }
+    }
+  }
+
+  report.orphanedRooms = Array.from(orphanedRooms);
+  return report;
+}
+
+/**
+ * Time of the last write to a room key, from the data it holds.
+ */
+async function lastWriteAt(key: string, suffix: RoomKeySuffix): Promise<number | null> {
+  switch (suffix) {
+    case 'snapshot': {
+      const timestamp = await redisClient.hget(key, 'timestamp');
+      return timestamp ? parseInt(timestamp, 10) : null;
+    }
+    case 'snapshots': {
+      const latest = await redisClient.lindex(key, 0);
+      return latest ? (JSON.parse(latest) as SnapshotHistoryEntry).timestamp : null;
+    }
+    case 'stream': {
+      // Stream ids start with the append time in ms
+      const [latest] = await redisClient.xrevrange(key, '+', '-', 'COUNT', 1);
+      return latest ? parseInt(latest[0].split('-')[0], 10) : null;
+    }
+    case 'streamIndex': {
+      // Members are stream ids; the highest seq was appended last
+      const [latest] = await redisClient.zrange(key, -1, -1);
+      return latest ? parseInt(latest.split('-')[0], 10) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Instance Registry
+// ============================================================================
+
+// Hash of instanceId -> JSON RegisteredInstance. One key, so it lives in a
+// single slot in cluster mode; lapsed entries are pruned by readers.
+const INSTANCE_REGISTRY_KEY = 'kasagi:instances';
+
+export interface RegisteredInstance {
+  instanceId: string;
+  address: string;
+  startedAt: number;
+  rooms: number;
+  clients: number;
+  heartbeatAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Write this instance's registry entry.
+ */
+export async function registerInstance(entry: RegisteredInstance): Promise<void> {
+  try {
+    await redisClient.hset(INSTANCE_REGISTRY_KEY, entry.instanceId, JSON.stringify(entry));
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message }, 'Failed to register instance');
+  }
+}
+
+export async function unregisterInstance(instanceId: string): Promise<void> {
+  try {
+    await redisClient.hdel(INSTANCE_REGISTRY_KEY, instanceId);
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message }, 'Failed to unregister instance');
+  }
+}
+
+/**
+ * Get every instance whose entry has not lapsed, pruning the lapsed ones.
+ */
+export async function listRegisteredInstances(): Promise<RegisteredInstance[]> {
+  try {
+    const entries = await redisClient.hgetall(INSTANCE_REGISTRY_KEY);
+    const now = Date.now();
+    const live: RegisteredInstance[] = [];
+    const lapsed: string[] = [];
+
+    for (const [instanceId, json] of Object.entries(entries)) {
+      const entry = JSON.parse(json) as RegisteredInstance;
+      if (entry.expiresAt > now) {
+        live.push(entry);
+      } else {
+        lapsed.push(instanceId);
+      }
+    }
+
+    if (lapsed.length > 0) {
+      await redisClient.hdel(INSTANCE_REGISTRY_KEY, ...lapsed);
+    }
+    return live;
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message }, 'Failed to list instances');
+    return [];
+  }
+}
+
+/**
+ * Record this instance as hosting each room until now + ttlMs. Each room's
+ * index is a sorted set of instanceIds scored by expiry.
+ */
+export async function addRoomInstances(roomIds: string[], ttlMs: number): Promise<void> {
+  const now = Date.now();
+
+  await Promise.all(
+    roomIds.map(async (roomId) => {
+      const key = roomKey(roomId, 'instances');
+      try {
+        await redisClient
+          .pipeline()
+          .zadd(key, now + ttlMs, config.instanceId)
+          .zremrangebyscore(key, '-inf', now)
+          .pexpire(key, ttlMs)
+          .exec();
+      } catch (err) {
+        redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to update room instance index');
+      }
+    })
+  );
+}
+
+export async function removeRoomInstance(roomId: string): Promise<void> {
+  try {
+    await redisClient.zrem(roomKey(roomId, 'instances'), config.instanceId);
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to update room instance index');
+  }
+}
+
+/**
+ * Get the ids of the instances hosting a room.
+ */
+export async function getRoomInstanceIds(roomId: string): Promise<string[]> {
+  try {
+    return await redisClient.zrangebyscore(roomKey(roomId, 'instances'), `(${Date.now()}`, '+inf');
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to read room instance index');
+    return [];
+  }
+}
+
+// ============================================================================
+// Room Directory
+// ============================================================================
+
+// One hash per instance, kasagi:directory:<instanceId>, of roomId -> JSON
+// DirectoryListing: the rooms the instance hosts with its own player count.
+// Separate keys spread heartbeat writes over the cluster; each key expires
+// with its listings, so a crashed instance's directory goes away on its own.
+const ROOM_DIRECTORY_KEY_PREFIX = 'kasagi:directory:';
+
+export interface DirectoryListing {
+  roomId: string;
+  instanceId: string;
+  roomType: string;
+  players: number;
+  capacity: number | null;
+  tags: string[];
+  expiresAt: number;
+}
+
+function directoryKey(instanceId: string): string {
+  return `${ROOM_DIRECTORY_KEY_PREFIX}${instanceId}`;
+}
+
+/**
+ * Write this instance's listings for the rooms it hosts.
+ */
+export async function publishRoomListings(listings: DirectoryListing[]): Promise<void> {
+  if (listings.length === 0) return;
+
+  const key = directoryKey(config.instanceId);
+  const fields: Record<string, string> = {};
+  for (const listing of listings) {
+    fields[listing.roomId] = JSON.stringify(listing);
+  }
+  const expiresAt = Math.max(...listings.map((listing) => listing.expiresAt));
+
+  try {
+    await redisClient.pipeline().hset(key, fields).pexpireat(key, expiresAt).exec();
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message }, 'Failed to update room directory');
+  }
+}
+
+export async function removeRoomListing(roomId: string): Promise<void> {
+  try {
+    await redisClient.hdel(directoryKey(config.instanceId), roomId);
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message, roomId }, 'Failed to update room directory');
+  }
+}
+
+/**
+ * Get every listing that has not lapsed, from the directories of the live
+ * instances in the registry.
+ */
+export async function listRoomListings(): Promise<DirectoryListing[]> {
+  try {
+    const instances = await listRegisteredInstances();
+    const directories = await Promise.all(
+      instances.map((instance) => redisClient.hgetall(directoryKey(instance.instanceId)))
+    );
+    const now = Date.now();
+
+    return directories
+      .flatMap((entries) => Object.values(entries))
+      .map((json) => JSON.parse(json) as DirectoryListing)
+      .filter((listing) => listing.expiresAt > now);
+  } catch (err) {
+    redisLogger.error({ error: (err as Error).message }, 'Failed to read room directory');
+    return [];
+  }
+}
+
 export default redisClient;
@@ -1,44 +1,19 @@
-import { Redis } from 'ioredis';
 import { config } from '../config/env.js';
 import { logger } from '../../utils/logger.js';
-import { decodeDeltaFromBase64, type FullDelta } from '../rooms/delta-engine.js';
-import { getOrCreateRoom } from '../rooms/room-manager.js';
+import { createRedisConnection, type RedisConnection } from './connection.js';
+import { roomKey, parseRoomChannel } from './keys.js';
+import type { RoomMessageHandler } from '../backplane/backplane.js';
 
 const subLogger = logger.child({ module: 'redis-subscriber', instanceId: config.instanceId });
 
-// NAT mapping for local development
-// When running outside Docker, Sentinel returns Docker-internal hostnames
-// which need to be mapped to localhost with correct port mappings
-const localNatMap: Record<string, { host: string; port: number }> = {
-  'redis-master:6379': { host: '127.0.0.1', port: 6380 },
-  'redis-replica-1:6379': { host: '127.0.0.1', port: 6381 },
-  'redis-replica-2:6379': { host: '127.0.0.1', port: 6382 },
-};
-
-// Create a separate Redis instance for Pub/Sub
-export const redisSubscriber = new Redis({
-  sentinels: [...config.sentinel.hosts],
-  name: config.sentinel.masterName,
-  password: config.sentinel.password,
-
-  // Enable natMap only in development (when running outside Docker)
-  ...(config.nodeEnv === 'development' && { natMap: localNatMap }),
-
-  retryStrategy(times: number): number {
-    const delay = Math.min(times * 100, 3000);
-    subLogger.warn({ attempt: times, delay }, 'Subscriber reconnecting to Redis...');
-    return delay;
-  },
-
-  reconnectOnError(err: Error): boolean {
-    const targetErrors = ['READONLY', 'ECONNRESET', 'ETIMEDOUT'];
-    return targetErrors.some((e) => err.message.includes(e));
-  },
-
-  maxRetriesPerRequest: null,
-  enableReadyCheck: true,
-  lazyConnect: false,
-});
+// Rooms hosted on this instance; their channels are (re)subscribed whenever the connection is ready
+const subscribedRooms: Set<string> = new Set();
+
+// Receives every message on a subscribed room channel (set by the Redis backplane)
+let roomMessageHandler: RoomMessageHandler | null = null;
+
+// Create a separate Redis connection for Pub/Sub
+export const redisSubscriber: RedisConnection = createRedisConnection(subLogger, { subscriber: true });
 
 // Connection event handlers
 redisSubscriber.on('connect', () => {
@@ -47,7 +22,10 @@ redisSubscriber.on('connect', () => {
 
 redisSubscriber.on('ready', () => {
   subLogger.info('Subscriber Redis connection ready');
-  initializeSubscriptions();
+  // The sharded subscriber group restores its own subscriptions in cluster mode
+  if (config.redis.mode === 'sentinel') {
+    void resubscribeAll();
+  }
 });
 
 redisSubscriber.on('error', (err: Error) => {
@@ -62,99 +40,133 @@ redisSubscriber.on('reconnecting', (delay: number) => {
   subLogger.info({ delay }, 'Subscriber Redis reconnecting...');
 });
 
-// Pattern subscription handler
-redisSubscriber.on('pmessage', async (pattern: string, channel: string, message: string) => {
-  subLogger.debug({ pattern, channel }, 'Received message on pattern subscription');
+// Room channel message handlers ('smessage' for sharded pub/sub in cluster mode).
+// The Buffer variants hand over payloads as raw bytes, without string decoding.
+redisSubscriber.on('messageBuffer', handleRoomMessage);
+redisSubscriber.on('smessageBuffer', handleRoomMessage);
 
-  try {
-    // Decode base64 → MessagePack → delta object
-    const delta: FullDelta = decodeDeltaFromBase64(message);
-
-    // Skip if this delta came from our own instance
-    if (delta.instanceId === config.instanceId) {
-      subLogger.debug({ roomId: delta.roomId, seq: delta.seq }, 'Ignoring own delta');
-      return;
-    }
-
-    // Extract roomId from channel (format: room:{roomId}:channel)
-    const roomIdMatch = channel.match(/^room:([^:]+):channel$/);
-    if (!roomIdMatch) {
-      subLogger.warn({ channel }, 'Unknown channel format');
-      return;
-    }
-
-    const roomId = roomIdMatch[1];
-
-    // Validate roomId matches delta
-    if (roomId !== delta.roomId) {
-      subLogger.warn({ channel, deltaRoomId: delta.roomId }, 'Room ID mismatch');
-      return;
-    }
-
-    subLogger.info(
-      { 
-        roomId, 
-        fromInstance: delta.instanceId, 
-        seq: delta.seq, 
-        tick: delta.tick 
-      },
-      'Received remote delta'
-    );
-
-    // Get or create the room and apply the remote delta
-    const room = await getOrCreateRoom(roomId);
-    const applied = room.applyRemoteDelta(delta);
-
-    if (applied) {
-      subLogger.info(
-        { roomId, seq: delta.seq, fromInstance: delta.instanceId },
-        'Remote delta applied successfully'
-      );
-    }
-  } catch (err) {
-    subLogger.error(
-      { error: (err as Error).message, channel },
-      'Failed to process remote delta'
-    );
+function handleRoomMessage(channelBuffer: Buffer, message: Buffer): void {
+  const channel = channelBuffer.toString();
+  subLogger.debug({ channel }, 'Received message on room subscription');
+
+  const parsed = parseRoomChannel(channel);
+  if (!parsed) {
+    subLogger.warn({ channel }, 'Unknown channel format');
+    return;
   }
-});
+
+  if (!roomMessageHandler) {
+    subLogger.debug({ channel }, 'No room message handler set, dropping message');
+    return;
+  }
+
+  roomMessageHandler(parsed.roomId, parsed.suffix === 'commands' ? 'command' : 'delta', message);
+}
+
+/**
+ * Set the handler for messages on subscribed room channels.
+ * Messages are passed on still encoded; decoding is up to the handler.
+ */
+export function setRoomMessageHandler(handler: RoomMessageHandler): void {
+  roomMessageHandler = handler;
+}
 
 // Subscription event logging
-redisSubscriber.on('psubscribe', (pattern: string, count: number) => {
-  subLogger.info({ pattern, activeSubscriptions: count }, 'Subscribed to pattern');
+redisSubscriber.on('subscribe', (channel: string, count: number) => {
+  subLogger.debug({ channel, activeSubscriptions: count }, 'Subscribed to channel');
 });
 
-redisSubscriber.on('punsubscribe', (pattern: string, count: number) => {
-  subLogger.info({ pattern, activeSubscriptions: count }, 'Unsubscribed from pattern');
+redisSubscriber.on('unsubscribe', (channel: string, count: number) => {
+  subLogger.debug({ channel, activeSubscriptions: count }, 'Unsubscribed from channel');
 });
 
+function roomChannels(roomId: string): [string, string] {
+  return [roomKey(roomId, 'channel'), roomKey(roomId, 'commands')];
+}
+
+// A room's channels share a hash slot, so each room is one sharded subscription
+async function subscribeChannels(channels: string[]): Promise<void> {
+  if (config.redis.mode === 'cluster') {
+    await redisSubscriber.ssubscribe(...channels);
+  } else {
+    await redisSubscriber.subscribe(...channels);
+  }
+}
+
+async function unsubscribeChannels(channels: string[]): Promise<void> {
+  if (config.redis.mode === 'cluster') {
+    await redisSubscriber.sunsubscribe(...channels);
+  } else {
+    await redisSubscriber.unsubscribe(...channels);
+  }
+}
+
 /**
- * Initialize pattern subscriptions after connection is ready.
+ * Restore subscriptions for every hosted room after (re)connecting.
  */
-async function initializeSubscriptions(): Promise<void> {
+async function resubscribeAll(): Promise<void> {
+  if (subscribedRooms.size === 0) {
+    return;
+  }
+
   try {
-    // Subscribe to all room channels using pattern matching
-    await redisSubscriber.psubscribe('room:*:channel');
-    subLogger.info('Initialized room channel subscriptions');
+    await subscribeChannels(Array.from(subscribedRooms).flatMap(roomChannels));
+    subLogger.info({ roomCount: subscribedRooms.size }, 'Restored room channel subscriptions');
   } catch (err) {
-    subLogger.error({ error: (err as Error).message }, 'Failed to initialize subscriptions');
+    subLogger.error({ error: (err as Error).message }, 'Failed to restore subscriptions');
   }
 }
 
 /**
- * Subscribe to a specific room channel (for explicit subscriptions).
+ * Subscribe to a room's delta and command channels.
+ * Safe to call repeatedly; if the connection is down the subscription is
+ * made once it is ready again.
  */
 export async function subscribeToRoom(roomId: string): Promise<void> {
-  const channel = `room:${roomId}:channel`;
-  subLogger.debug({ roomId, channel }, 'Room covered by pattern subscription');
+  if (subscribedRooms.has(roomId)) {
+    return;
+  }
+  subscribedRooms.add(roomId);
+
+  // Cluster commands wait in the offline queue; Sentinel resubscribes everything on 'ready'
+  if (config.redis.mode === 'sentinel' && redisSubscriber.status !== 'ready') {
+    subLogger.debug({ roomId }, 'Subscriber not ready, room will be subscribed on reconnect');
+    return;
+  }
+
+  try {
+    await subscribeChannels(roomChannels(roomId));
+    subLogger.info({ roomId }, 'Subscribed to room channels');
+  } catch (err) {
+    subLogger.error({ error: (err as Error).message, roomId }, 'Failed to subscribe to room');
+  }
 }
 
 /**
- * Unsubscribe from a specific room channel.
+ * Unsubscribe from a room's channels.
  */
 export async function unsubscribeFromRoom(roomId: string): Promise<void> {
-  const channel = `room:${roomId}:channel`;
-  subLogger.debug({ roomId, channel }, 'Room cleanup (pattern subscription continues)');
+  if (!subscribedRooms.delete(roomId)) {
+    return;
+  }
+
+  if (config.redis.mode === 'sentinel' && redisSubscriber.status !== 'ready') {
+    return;
+  }
+
+  try {
+    await unsubscribeChannels(roomChannels(roomId));
+    subLogger.info({ roomId }, 'Unsubscribed from room channels');
+  } catch (err) {
+    subLogger.error({ error: (err as Error).message, roomId }, 'Failed to unsubscribe from room');
+  }
+}
+
+/**
+ * Get the rooms this instance is subscribed to.
+ */
+export function getSubscribedRooms(): string[] {
+  return Array.from(subscribedRooms);
 }
 
 /**
@@ -162,7 +174,7 @@ export async function unsubscribeFromRoom(roomId: string): Promise<void> {
  */
 export async function shutdownSubscriber(): Promise<void> {
   subLogger.info('Shutting down Redis subscriber...');
-  await redisSubscriber.punsubscribe();
+  await Promise.allSettled(Array.from(subscribedRooms, (roomId) => unsubscribeFromRoom(roomId)));
   await redisSubscriber.quit();
   subLogger.info('Redis subscriber shutdown complete');
 }
@@ -1,9 +1,28 @@
 import msgpack from 'msgpack-lite';
 import { logger } from '../../utils/logger.js';
 import { config } from '../config/env.js';
+import {
+  applyDeltaToEntities,
+  type DeltaOp,
+  type EntityDelta,
+  type PathSegment,
+} from '../../shared/delta-ops.js';
+import {
+  CompactDictionary,
+  decodeCompactDelta,
+  isCompactDeltaFrame,
+  type CompactDeltaFrame,
+} from '../../shared/compact-codec.js';
+import type { HlcStamp } from './lww.js';
+import type { WsDeltaMessage } from '../../shared/types.js';
 
 const deltaLogger = logger.child({ module: 'delta-engine', instanceId: config.instanceId });
 
+// Compact dictionaries for deltas received from other instances, keyed by roomId + instanceId
+export type RemoteDictionaries = Map<string, CompactDictionary>;
+
+const remoteDictionaries: RemoteDictionaries = new Map();
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -18,17 +37,14 @@ export interface DeltaPayload {
   instanceId: string;
 }
 
-export interface EntityDelta {
-  [entityId: string]: Record<string, unknown> | null;
-}
-
-export interface FullDelta {
-  roomId: string;
-  delta: EntityDelta;
-  tick: number;
-  seq: number;
-  ts: number;
+/**
+ * A delta as published on the backplane. It is the client delta message
+ * plus routing fields, so one encoding can go to both.
+ */
+export interface FullDelta extends WsDeltaMessage {
   instanceId: string;
+  /** Hybrid logical clock stamp; only set by rooms in 'lww' sync mode. */
+  clock?: HlcStamp;
 }
 
 export interface EncodedSnapshot {
@@ -43,8 +59,9 @@ export interface EncodedSnapshot {
 // ============================================================================
 
 /**
- * Compute a shallow diff between previous and next entity states.
- * Returns an object containing only the changed entity keys.
+ * Compute a deep, path-based diff between previous and next entity states.
+ * New entities are sent whole; changed entities carry only the operations
+ * needed to turn the previous value into the next one.
  */
 export function computeEntityDelta(
   prev: Record<string, Record<string, unknown>>,
@@ -54,38 +71,25 @@ export function computeEntityDelta(
 
   // Check for added or changed entities
   for (const entityId of Object.keys(next)) {
-    const prevEntity = prev[entityId];
+    const prevEntity = Object.hasOwn(prev, entityId) ? prev[entityId] : undefined;
     const nextEntity = next[entityId];
 
     if (!prevEntity) {
       // New entity
-      delta[entityId] = nextEntity;
-    } else if (JSON.stringify(prevEntity) !== JSON.stringify(nextEntity)) {
-      // Changed entity - compute field-level diff
-      const fieldDelta: Record<string, unknown> = {};
-      
-      for (const field of Object.keys(nextEntity)) {
-        if (prevEntity[field] !== nextEntity[field]) {
-          fieldDelta[field] = nextEntity[field];
-        }
-      }
-      
-      // Check for removed fields
-      for (const field of Object.keys(prevEntity)) {
-        if (!(field in nextEntity)) {
-          fieldDelta[field] = null;
-        }
-      }
+      delta[entityId] = [{ op: 'set', path: [], value: structuredClone(nextEntity) }];
+    } else {
+      const ops: DeltaOp[] = [];
+      diffObject(prevEntity, nextEntity, [], ops);
 
-      if (Object.keys(fieldDelta).length > 0) {
-        delta[entityId] = fieldDelta;
+      if (ops.length > 0) {
+        delta[entityId] = ops;
       }
     }
   }
 
   // Check for removed entities (mark as null for deletion)
   for (const entityId of Object.keys(prev)) {
-    if (!(entityId in next)) {
+    if (!Object.hasOwn(next, entityId)) {
       delta[entityId] = null;
     }
   }
@@ -93,6 +97,122 @@ export function computeEntityDelta(
   return delta;
 }
 
+function diffValue(prev: unknown, next: unknown, path: PathSegment[], ops: DeltaOp[]): void {
+  if (prev === next) {
+    return;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    diffArray(prev, next, path, ops);
+  } else if (isPlainObject(prev) && isPlainObject(next)) {
+    diffObject(prev, next, path, ops);
+  } else {
+    ops.push({ op: 'set', path, value: cloneValue(next) });
+  }
+}
+
+function diffObject(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  path: PathSegment[],
+  ops: DeltaOp[]
+): void {
+  for (const key of Object.keys(next)) {
+    // Own keys only: `in` would treat e.g. "constructor" as present and diff into the prototype
+    if (!Object.hasOwn(prev, key)) {
+      ops.push({ op: 'set', path: [...path, key], value: cloneValue(next[key]) });
+    } else {
+      diffValue(prev[key], next[key], [...path, key], ops);
+    }
+  }
+
+  for (const key of Object.keys(prev)) {
+    if (!Object.hasOwn(next, key)) {
+      ops.push({ op: 'del', path: [...path, key] });
+    }
+  }
+}
+
+/**
+ * Diff two arrays as remove / move / insert operations.
+ * Elements are matched by their `id` field when they have one (so edited
+ * items are diffed in place), otherwise by value. Falls back to replacing the
+ * whole array when that would take fewer operations.
+ */
+function diffArray(prev: unknown[], next: unknown[], path: PathSegment[], ops: DeltaOp[]): void {
+  const arrayOps: DeltaOp[] = [];
+  const nextKeys = next.map(itemKey);
+
+  // Remove elements with no counterpart in next (from the end, so indices stay valid)
+  const remaining = new Map<string, number>();
+  for (const key of nextKeys) {
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const keep = prev.map((item) => {
+    const key = itemKey(item);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      return true;
+    }
+    return false;
+  });
+
+  const work: Array<{ key: string; value: unknown }> = [];
+  for (let i = prev.length - 1; i >= 0; i--) {
+    if (!keep[i]) {
+      arrayOps.push({ op: 'rm', path, index: i });
+    }
+  }
+  prev.forEach((value, i) => {
+    if (keep[i]) work.push({ key: itemKey(value), value });
+  });
+
+  // Bring the survivors into order, inserting new elements as we go
+  for (let j = 0; j < next.length; j++) {
+    if (j < work.length && work[j].key === nextKeys[j]) {
+      diffValue(work[j].value, next[j], [...path, j], arrayOps);
+      continue;
+    }
+
+    const from = work.findIndex((item, k) => k > j && item.key === nextKeys[j]);
+    if (from !== -1) {
+      arrayOps.push({ op: 'mv', path, from, to: j });
+      const [moved] = work.splice(from, 1);
+      work.splice(j, 0, moved);
+      diffValue(moved.value, next[j], [...path, j], arrayOps);
+    } else {
+      arrayOps.push({ op: 'ins', path, index: j, value: cloneValue(next[j]) });
+      work.splice(j, 0, { key: nextKeys[j], value: next[j] });
+    }
+  }
+
+  if (arrayOps.length > next.length) {
+    ops.push({ op: 'set', path, value: cloneValue(next) });
+  } else {
+    ops.push(...arrayOps);
+  }
+}
+
+/**
+ * Identity of an array element for matching across versions.
+ */
+function itemKey(item: unknown): string {
+  if (isPlainObject(item) && (typeof item.id === 'string' || typeof item.id === 'number')) {
+    return `id:${typeof item.id}:${item.id}`;
+  }
+  return `v:${JSON.stringify(item)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function cloneValue<T>(value: T): T {
+  return typeof value === 'object' && value !== null ? structuredClone(value) : value;
+}
+
 /**
  * Legacy computeDelta for backwards compatibility.
  */
@@ -119,20 +239,25 @@ export function computeDelta(
 
 /**
  * Create a full delta payload with metadata.
+ * instanceId identifies the publishing instance (the backplane's id).
  */
 export function createDeltaPayload(
   roomId: string,
   delta: EntityDelta,
   tick: number,
-  seq: number
+  seq: number,
+  instanceId: string = config.instanceId,
+  clock?: HlcStamp
 ): FullDelta {
   return {
+    type: 'delta',
     roomId,
-    delta,
     tick,
     seq,
-    ts: Date.now(),
-    instanceId: config.instanceId,
+    delta,
+    timestamp: Date.now(),
+    instanceId,
+    ...(clock && { clock }),
   };
 }
 
@@ -143,7 +268,7 @@ export function createDeltaPayload(
 /**
  * Encode a delta using MessagePack.
  */
-export function encodeDelta(delta: FullDelta | Record<string, unknown>): Buffer {
+export function encodeDelta(delta: FullDelta | CompactDeltaFrame | Record<string, unknown>): Buffer {
   return Buffer.from(msgpack.encode(delta));
 }
 
@@ -174,6 +299,59 @@ export function decodeDeltaFromBase64(base64: string): FullDelta {
   return msgpack.decode(buffer) as FullDelta;
 }
 
+/**
+ * Whether an encoded backplane delta is in the standard format, and so can
+ * be sent to standard-format clients as is. Standard deltas are MessagePack
+ * maps; compact frames are arrays.
+ */
+export function isStandardDeltaFrame(message: Buffer): boolean {
+  const first = message[0];
+  return (first >= 0x80 && first <= 0x8f) || first === 0xde || first === 0xdf;
+}
+
+/**
+ * Decode a delta received from the backplane in either the standard or compact format.
+ * Throws CompactDictionaryGapError when a compact frame references dictionary
+ * entries we never received (the next keyframe repairs the dictionary).
+ * Instances sharing a process pass their own `dictionaries`.
+ */
+export function decodeRemoteDelta(message: Buffer, dictionaries: RemoteDictionaries = remoteDictionaries): FullDelta {
+  const decoded: unknown = msgpack.decode(message);
+
+  if (!isCompactDeltaFrame(decoded)) {
+    return decoded as FullDelta;
+  }
+
+  const key = `${decoded[6]}:${decoded[7]}`;
+  let dictionary = dictionaries.get(key);
+  if (!dictionary) {
+    dictionary = new CompactDictionary();
+    dictionaries.set(key, dictionary);
+  }
+
+  const frame = decodeCompactDelta(decoded, dictionary);
+  return {
+    type: 'delta',
+    roomId: frame.roomId as string,
+    tick: frame.tick,
+    seq: frame.seq,
+    delta: frame.delta,
+    timestamp: frame.timestamp,
+    instanceId: frame.instanceId as string,
+  };
+}
+
+/**
+ * Drop the remote compact dictionaries held for a room.
+ */
+export function forgetRemoteDictionaries(roomId: string, dictionaries: RemoteDictionaries = remoteDictionaries): void {
+  for (const key of Array.from(dictionaries.keys())) {
+    if (key.startsWith(`${roomId}:`)) {
+      dictionaries.delete(key);
+    }
+  }
+}
+
 // ============================================================================
 // Remote Delta Application
 // ============================================================================
@@ -181,13 +359,15 @@ export function decodeDeltaFromBase64(base64: string): FullDelta {
 /**
  * Check if a remote delta should be applied based on sequence number.
  * Returns true if the delta is newer than our current state.
+ * Rooms in 'lww' sync mode merge by clock instead (see lww.ts).
  */
 export function shouldApplyRemoteDelta(
   remoteDelta: FullDelta,
-  localSeq: number
+  localSeq: number,
+  localInstanceId: string = config.instanceId
 ): boolean {
   // Ignore deltas from our own instance
-  if (remoteDelta.instanceId === config.instanceId) {
+  if (remoteDelta.instanceId === localInstanceId) {
     deltaLogger.debug(
       { roomId: remoteDelta.roomId, seq: remoteDelta.seq },
       'Ignoring own delta'
@@ -207,34 +387,6 @@ export function shouldApplyRemoteDelta(
   return true;
 }
 
-/**
- * Apply entity delta to a state object.
- * Mutates the entities object in place.
- */
-export function applyDeltaToEntities(
-  entities: Record<string, Record<string, unknown>>,
-  delta: EntityDelta
-): void {
-  for (const [entityId, changes] of Object.entries(delta)) {
-    if (changes === null) {
-      // Entity was deleted
-      delete entities[entityId];
-    } else if (!entities[entityId]) {
-      // New entity
-      entities[entityId] = changes as Record<string, unknown>;
-    } else {
-      // Update existing entity
-      for (const [field, value] of Object.entries(changes)) {
-        if (value === null) {
-          delete entities[entityId][field];
-        } else {
-          entities[entityId][field] = value;
-        }
-      }
-    }
-  }
-}
-
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -253,4 +405,6 @@ export function isDeltaEmpty(delta: EntityDelta): boolean {
   return Object.keys(delta).length === 0;
 }
 
+export { applyDeltaToEntities };
+export type { EntityDelta, DeltaOp, PathSegment };
 export type { EntityDelta as Delta };
@@ -0,0 +1,85 @@
+import type { EntityDelta } from '../../shared/delta-ops.js';
+
+export interface DeltaHistoryEntry {
+  seq: number;
+  tick: number;
+  delta: EntityDelta;
+  timestamp: number;
+}
+
+/**
+ * Bounded ring buffer of a room's most recent deltas, keyed by seq.
+ * Entries are always contiguous: pushing a non-consecutive seq starts over.
+ */
+export class DeltaHistory {
+  private readonly capacity: number;
+  private readonly entries: Array<DeltaHistoryEntry | undefined>;
+  private head: number;
+  private count: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(0, capacity);
+    this.entries = new Array(this.capacity);
+    this.head = 0;
+    this.count = 0;
+  }
+
+  /**
+   * Record a delta. Must carry the seq right after the latest one.
+   */
+  public push(entry: DeltaHistoryEntry): void {
+    if (this.capacity === 0) return;
+
+    const latest = this.latestSeq;
+    if (latest !== null && entry.seq !== latest + 1) {
+      this.clear();
+    }
+
+    const index = (this.head + this.count) % this.capacity;
+    this.entries[index] = entry;
+
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.head = (this.head + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Get every delta after `lastSeq`, oldest first.
+   * Returns null when the buffer no longer covers that range.
+   */
+  public getSince(lastSeq: number): DeltaHistoryEntry[] | null {
+    const oldest = this.oldestSeq;
+    const latest = this.latestSeq;
+
+    if (oldest === null || latest === null) return null;
+    if (lastSeq === latest) return [];
+    if (lastSeq < oldest - 1 || lastSeq > latest) return null;
+
+    const result: DeltaHistoryEntry[] = [];
+    for (let i = lastSeq - oldest + 1; i < this.count; i++) {
+      result.push(this.entries[(this.head + i) % this.capacity] as DeltaHistoryEntry);
+    }
+    return result;
+  }
+
+  public clear(): void {
+    this.entries.fill(undefined);
+    this.head = 0;
+    this.count = 0;
+  }
+
+  public get size(): number {
+    return this.count;
+  }
+
+  public get oldestSeq(): number | null {
+    return this.count === 0 ? null : (this.entries[this.head] as DeltaHistoryEntry).seq;
+  }
+
+  public get latestSeq(): number | null {
+    if (this.count === 0) return null;
+    return (this.entries[(this.head + this.count - 1) % this.capacity] as DeltaHistoryEntry).seq;
+  }
+}
@@ -0,0 +1,216 @@
+import { MAX_INPUT_FIELDS, MAX_INPUT_PAYLOAD_BYTES } from '../../shared/constants.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FieldType = 'number' | 'integer' | 'string' | 'boolean' | 'object' | 'array';
+
+export interface FieldSchema {
+  type: FieldType;
+  /** Inclusive numeric bounds (number/integer). */
+  min?: number;
+  max?: number;
+  /** Maximum string length or array length. */
+  maxLength?: number;
+  /** Maximum JSON-serialized size in bytes (object/array). */
+  maxBytes?: number;
+  /** Accept null in addition to the declared type. */
+  nullable?: boolean;
+  /** Reject payloads that omit this field. */
+  required?: boolean;
+}
+
+/**
+ * Declarative description of the input payloads a room type accepts.
+ */
+export interface InputSchema {
+  fields: Record<string, FieldSchema>;
+  /** Accept fields not listed in `fields` (defaults to false). */
+  allowUnknownFields?: boolean;
+  /** Maximum number of top-level fields (defaults to MAX_INPUT_FIELDS). */
+  maxFields?: number;
+  /** Maximum JSON-serialized payload size (defaults to MAX_INPUT_PAYLOAD_BYTES). */
+  maxBytes?: number;
+}
+
+export type ValidationResult = { valid: true } | { valid: false; reason: string };
+
+// ============================================================================
+// Reserved Fields
+// ============================================================================
+
+/**
+ * Entity fields managed by the server. Clients may never write them.
+ */
+export const RESERVED_ENTITY_FIELDS: ReadonlySet<string> = new Set([
+  'connected',
+  'lastSeen',
+  'disconnectedAt',
+  'lastUpdate',
+]);
+
+// Keys that would tamper with object prototypes when merged
+const FORBIDDEN_KEYS: ReadonlySet<string> = new Set(['__proto__', 'constructor', 'prototype']);
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate an input payload against a room type's schema.
+ * Without a schema only the reserved-field and size limits apply.
+ */
+export function validateInput(payload: unknown, schema?: InputSchema): ValidationResult {
+  if (!isPlainObject(payload)) {
+    return invalid('payload must be an object');
+  }
+
+  const keys = Object.keys(payload);
+  const maxFields = schema?.maxFields ?? MAX_INPUT_FIELDS;
+  if (keys.length > maxFields) {
+    return invalid(`payload has ${keys.length} fields (max ${maxFields})`);
+  }
+
+  const maxBytes = schema?.maxBytes ?? MAX_INPUT_PAYLOAD_BYTES;
+  const size = byteSize(payload);
+  if (size > maxBytes) {
+    return invalid(`payload is ${size} bytes (max ${maxBytes})`);
+  }
+
+  for (const key of keys) {
+    if (RESERVED_ENTITY_FIELDS.has(key)) {
+      return invalid(`field "${key}" is reserved`);
+    }
+  }
+
+  const forbidden = findForbiddenKey(payload);
+  if (forbidden !== null) {
+    return invalid(`field "${forbidden}" is reserved`);
+  }
+
+  if (!schema) {
+    return { valid: true };
+  }
+
+  for (const key of keys) {
+    const fieldSchema = schema.fields[key];
+    if (!fieldSchema) {
+      if (!schema.allowUnknownFields) {
+        return invalid(`unknown field "${key}"`);
+      }
+      continue;
+    }
+
+    const result = validateField(key, payload[key], fieldSchema);
+    if (!result.valid) {
+      return result;
+    }
+  }
+
+  for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+    if (fieldSchema.required && !(key in payload)) {
+      return invalid(`missing required field "${key}"`);
+    }
+  }
+
+  return { valid: true };
+}
+
+function validateField(key: string, value: unknown, schema: FieldSchema): ValidationResult {
+  if (value === null) {
+    return schema.nullable ? { valid: true } : invalid(`field "${key}" must not be null`);
+  }
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return invalid(`field "${key}" must be a finite number`);
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return invalid(`field "${key}" must be an integer`);
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return invalid(`field "${key}" must be >= ${schema.min}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return invalid(`field "${key}" must be <= ${schema.max}`);
+      }
+      return { valid: true };
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        return invalid(`field "${key}" must be a string`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return invalid(`field "${key}" exceeds ${schema.maxLength} characters`);
+      }
+      return { valid: true };
+    case 'boolean':
+      return typeof value === 'boolean' ? { valid: true } : invalid(`field "${key}" must be a boolean`);
+    case 'array':
+      if (!Array.isArray(value)) {
+        return invalid(`field "${key}" must be an array`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return invalid(`field "${key}" exceeds ${schema.maxLength} items`);
+      }
+      return checkBytes(key, value, schema);
+    case 'object':
+      if (!isPlainObject(value)) {
+        return invalid(`field "${key}" must be an object`);
+      }
+      return checkBytes(key, value, schema);
+  }
+}
+
+function checkBytes(key: string, value: unknown, schema: FieldSchema): ValidationResult {
+  if (schema.maxBytes !== undefined) {
+    const size = byteSize(value);
+    if (size > schema.maxBytes) {
+      return invalid(`field "${key}" is ${size} bytes (max ${schema.maxBytes})`);
+    }
+  }
+  return { valid: true };
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The first prototype-tampering key found at any depth, else null.
+ */
+function findForbiddenKey(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findForbiddenKey(item);
+      if (found !== null) return found;
+    }
+    return null;
+  }
+
+  if (!isPlainObject(value)) {
+    return null;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (FORBIDDEN_KEYS.has(key)) return key;
+    const found = findForbiddenKey(child);
+    if (found !== null) return found;
+  }
+  return null;
+}
+
+function byteSize(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value), 'utf-8');
+}
+
+function invalid(reason: string): ValidationResult {
+  return { valid: false, reason };
+}
@@ -0,0 +1,208 @@
+import type { WebSocket } from 'ws';
+import type { EntityDelta } from '../../shared/delta-ops.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Area-of-interest configuration for a room type.
+ * Positions are read from numeric top-level entity fields (`x`/`y` by default).
+ * Entities without a position are visible to everyone.
+ */
+export type InterestConfig =
+  | {
+      mode: 'radius';
+      /** Visible distance in world units. */
+      radius: number;
+      xField?: string;
+      yField?: string;
+    }
+  | {
+      mode: 'grid';
+      /** Edge length of a grid cell in world units. */
+      cellSize: number;
+      /** Cells visible in each direction around the viewer's cell (defaults to 1). */
+      viewDistance?: number;
+      xField?: string;
+      yField?: string;
+    };
+
+export interface InterestViewer {
+  socket: WebSocket;
+  playerId: string | null;
+}
+
+type Entities = Record<string, Record<string, unknown>>;
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+// ============================================================================
+// Interest Manager
+// ============================================================================
+
+/**
+ * Tracks which entities each client can see and turns room-wide deltas into
+ * per-client deltas. Entities entering a client's area are sent whole;
+ * entities leaving it are sent as null removals.
+ */
+export class InterestManager {
+  private readonly config: InterestConfig;
+  private readonly xField: string;
+  private readonly yField: string;
+  private readonly visibleBySocket: Map<WebSocket, Set<string>> = new Map();
+
+  constructor(config: InterestConfig) {
+    this.config = config;
+    this.xField = config.xField ?? 'x';
+    this.yField = config.yField ?? 'y';
+  }
+
+  /**
+   * Filter a snapshot for a client and remember what it was sent.
+   */
+  public snapshotFor(viewer: InterestViewer, entities: Entities): Entities {
+    const visible = this.computeVisible(viewer.playerId, entities, this.buildGridIndex(entities));
+    this.visibleBySocket.set(viewer.socket, visible);
+
+    const filtered: Entities = {};
+    for (const entityId of visible) {
+      filtered[entityId] = entities[entityId];
+    }
+    return filtered;
+  }
+
+  /**
+   * Build the delta each viewer should receive after `delta` was applied to `entities`.
+   * Viewers whose delta would be empty are omitted.
+   */
+  public filterForViewers(
+    entities: Entities,
+    delta: EntityDelta,
+    viewers: Iterable<InterestViewer>
+  ): Map<WebSocket, EntityDelta> {
+    const index = this.buildGridIndex(entities);
+    const result: Map<WebSocket, EntityDelta> = new Map();
+
+    for (const viewer of viewers) {
+      const previous = this.visibleBySocket.get(viewer.socket) ?? new Set<string>();
+      const visible = this.computeVisible(viewer.playerId, entities, index);
+      const viewerDelta: EntityDelta = {};
+
+      for (const entityId of visible) {
+        if (!previous.has(entityId)) {
+          // Entering the area of interest
+          viewerDelta[entityId] = [{ op: 'set', path: [], value: structuredClone(entities[entityId]) }];
+        } else if (delta[entityId] !== undefined) {
+          viewerDelta[entityId] = delta[entityId];
+        }
+      }
+
+      for (const entityId of previous) {
+        if (!visible.has(entityId)) {
+          // Leaving the area of interest (or removed from the room)
+          viewerDelta[entityId] = null;
+        }
+      }
+
+      this.visibleBySocket.set(viewer.socket, visible);
+      if (Object.keys(viewerDelta).length > 0) {
+        result.set(viewer.socket, viewerDelta);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Stop tracking a client.
+   */
+  public forget(socket: WebSocket): void {
+    this.visibleBySocket.delete(socket);
+  }
+
+  private computeVisible(
+    playerId: string | null,
+    entities: Entities,
+    index: Map<string, string[]> | null
+  ): Set<string> {
+    const visible = new Set<string>();
+    const viewerPosition = playerId ? this.positionOf(entities[playerId]) : null;
+
+    if (playerId && entities[playerId]) {
+      visible.add(playerId);
+    }
+
+    if (this.config.mode === 'grid' && index) {
+      index.get('*')?.forEach((id) => visible.add(id));
+      if (!viewerPosition) {
+        return visible;
+      }
+
+      const range = this.config.viewDistance ?? 1;
+      const center = this.cellOf(viewerPosition);
+      for (let dx = -range; dx <= range; dx++) {
+        for (let dy = -range; dy <= range; dy++) {
+          index.get(`${center.x + dx},${center.y + dy}`)?.forEach((id) => visible.add(id));
+        }
+      }
+      return visible;
+    }
+
+    const radius = this.config.mode === 'radius' ? this.config.radius : 0;
+    const radiusSq = radius * radius;
+
+    for (const [entityId, entity] of Object.entries(entities)) {
+      const position = this.positionOf(entity);
+      if (!position) {
+        visible.add(entityId);
+      } else if (viewerPosition) {
+        const dx = position.x - viewerPosition.x;
+        const dy = position.y - viewerPosition.y;
+        if (dx * dx + dy * dy <= radiusSq) {
+          visible.add(entityId);
+        }
+      }
+    }
+
+    return visible;
+  }
+
+  /**
+   * Group entities by grid cell ('*' holds entities without a position).
+   */
+  private buildGridIndex(entities: Entities): Map<string, string[]> | null {
+    if (this.config.mode !== 'grid') {
+      return null;
+    }
+
+    const index: Map<string, string[]> = new Map();
+    for (const [entityId, entity] of Object.entries(entities)) {
+      const position = this.positionOf(entity);
+      const cell = position ? this.cellOf(position) : null;
+      const key = cell ? `${cell.x},${cell.y}` : '*';
+
+      const ids = index.get(key) ?? [];
+      ids.push(entityId);
+      index.set(key, ids);
+    }
+    return index;
+  }
+
+  private cellOf(position: Position): Position {
+    const cellSize = this.config.mode === 'grid' ? this.config.cellSize : 1;
+    return { x: Math.floor(position.x / cellSize), y: Math.floor(position.y / cellSize) };
+  }
+
+  private positionOf(entity: Record<string, unknown> | undefined): Position | null {
+    const x = entity?.[this.xField];
+    const y = entity?.[this.yField];
+    if (typeof x !== 'number' || typeof y !== 'number') {
+      return null;
+    }
+    return { x, y };
+  }
+}
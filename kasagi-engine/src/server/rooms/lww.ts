@@ -0,0 +1,382 @@
+import { isDeepStrictEqual } from 'node:util';
+import { isUnsafeKey, type DeltaOp, type EntityDelta } from '../../shared/delta-ops.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** [wall clock ms, logical counter, instanceId]; totally ordered by compareStamps. */
+export type HlcStamp = [number, number, string];
+
+/** Register metadata persisted with snapshots of last-writer-wins rooms. */
+export interface LwwSnapshot {
+  [entityId: string]: {
+    tombstone: HlcStamp | null;
+    fields: Record<string, HlcStamp>;
+  };
+}
+
+interface EntityRegisters {
+  /** Removal or whole-entity replacement; older field writes are discarded. */
+  tombstone: HlcStamp | null;
+  /** Stamp of the last write to each top-level field, including deletions. */
+  fields: Map<string, HlcStamp>;
+}
+
+type Entities = Record<string, Record<string, unknown>>;
+
+// ============================================================================
+// Hybrid Logical Clock
+// ============================================================================
+
+/**
+ * Compare two stamps: wall time, then counter, then instanceId.
+ */
+export function compareStamps(a: HlcStamp, b: HlcStamp): number {
+  if (a[0] !== b[0]) return a[0] - b[0];
+  if (a[1] !== b[1]) return a[1] - b[1];
+  return a[2] < b[2] ? -1 : a[2] > b[2] ? 1 : 0;
+}
+
+/**
+ * Hybrid logical clock: follows wall time but never goes backwards and
+ * always moves past any stamp it has received.
+ */
+export class HybridLogicalClock {
+  private readonly instanceId: string;
+  private wallMs: number;
+  private counter: number;
+
+  constructor(instanceId: string) {
+    this.instanceId = instanceId;
+    this.wallMs = 0;
+    this.counter = 0;
+  }
+
+  /**
+   * Stamp a local event.
+   */
+  public now(): HlcStamp {
+    const physical = Date.now();
+
+    if (physical > this.wallMs) {
+      this.wallMs = physical;
+      this.counter = 0;
+    } else {
+      this.counter++;
+    }
+
+    return [this.wallMs, this.counter, this.instanceId];
+  }
+
+  /**
+   * Advance past a stamp received from another instance.
+   */
+  public receive(remote: HlcStamp): void {
+    const [remoteWall, remoteCounter] = remote;
+    const wall = Math.max(Date.now(), this.wallMs, remoteWall);
+
+    if (wall === this.wallMs && wall === remoteWall) {
+      this.counter = Math.max(this.counter, remoteCounter) + 1;
+    } else if (wall === this.wallMs) {
+      this.counter++;
+    } else if (wall === remoteWall) {
+      this.counter = remoteCounter + 1;
+    } else {
+      this.counter = 0;
+    }
+
+    this.wallMs = wall;
+  }
+}
+
+// ============================================================================
+// Last-Writer-Wins State
+// ============================================================================
+
+/**
+ * Per-field last-writer-wins registers for a room's entities.
+ *
+ * Every top-level entity field is a register holding the stamp of its last
+ * write. Removing or replacing an entity sets a tombstone that discards all
+ * older field writes. An entity's fields are therefore a pure function of
+ * the set of deltas received, so instances converge regardless of order.
+ * Entities left with no fields are removed.
+ */
+export class LwwState {
+  private readonly clock: HybridLogicalClock;
+  private readonly registers: Map<string, EntityRegisters> = new Map();
+
+  constructor(instanceId: string, snapshot?: LwwSnapshot) {
+    this.clock = new HybridLogicalClock(instanceId);
+
+    for (const [entityId, saved] of Object.entries(snapshot ?? {})) {
+      this.registers.set(entityId, {
+        tombstone: saved.tombstone,
+        fields: new Map(Object.entries(saved.fields)),
+      });
+      for (const stamp of Object.values(saved.fields)) {
+        this.clock.receive(stamp);
+      }
+      if (saved.tombstone) {
+        this.clock.receive(saved.tombstone);
+      }
+    }
+  }
+
+  /**
+   * Stamp a locally produced delta and record it in the registers.
+   * Returns the field-level delta to publish: every touched top-level field
+   * is sent whole, since registers are per field.
+   */
+  public stampLocal(delta: EntityDelta, entities: Entities): { delta: EntityDelta; clock: HlcStamp } {
+    const clock = this.clock.now();
+    const fieldDelta = toFieldDelta(delta, entities);
+
+    for (const [entityId, ops] of Object.entries(fieldDelta)) {
+      const registers = this.registersFor(entityId);
+
+      if (ops === null || isReplacement(ops)) {
+        registers.tombstone = clock;
+        registers.fields.clear();
+      }
+      for (const field of touchedFields(ops ?? [])) {
+        registers.fields.set(field, clock);
+      }
+    }
+
+    return { delta: fieldDelta, clock };
+  }
+
+  /**
+   * Merge a field-level delta from another instance into `entities`.
+   * Writes older than the current register (or the entity's tombstone) lose.
+   * Returns the changes actually made as whole-field writes (so they can be
+   * applied to any copy of the entities), empty if every write lost.
+   */
+  public merge(delta: EntityDelta, clock: HlcStamp, entities: Entities): EntityDelta {
+    this.clock.receive(clock);
+
+    const applied: EntityDelta = {};
+
+    for (const [entityId, ops] of Object.entries(delta)) {
+      if (isUnsafeKey(entityId)) continue;
+
+      const before = entities[entityId] ? structuredClone(entities[entityId]) : undefined;
+      const registers = this.registersFor(entityId);
+
+      if (ops === null || isReplacement(ops)) {
+        this.applyTombstone(entityId, registers, clock, entities);
+      }
+
+      for (const op of ops ?? []) {
+        if (op.path.length === 0 && op.op === 'set') {
+          for (const [field, value] of Object.entries(op.value as Record<string, unknown>)) {
+            this.applyField(entityId, registers, field, { op: 'set', path: [field], value }, clock, entities);
+          }
+        } else if (typeof op.path[0] === 'string') {
+          this.applyField(entityId, registers, op.path[0], op, clock, entities);
+        }
+      }
+
+      const entity = entities[entityId];
+      if (entity && Object.keys(entity).length === 0) {
+        delete entities[entityId];
+      }
+
+      const changes = diffFields(before, entities[entityId]);
+      if (changes !== undefined) {
+        applied[entityId] = changes;
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Re-express the current state as field-level deltas, one per distinct
+   * stamp, for instances that missed some of our deltas. Merging them is
+   * idempotent, so receivers that already have the writes are unaffected.
+   */
+  public exportDeltas(entities: Entities): Array<{ delta: EntityDelta; clock: HlcStamp }> {
+    const byStamp: Map<string, { delta: EntityDelta; clock: HlcStamp }> = new Map();
+    const opsAt = (clock: HlcStamp, entityId: string): DeltaOp[] => {
+      const key = JSON.stringify(clock);
+      let entry = byStamp.get(key);
+      if (!entry) {
+        entry = { delta: {}, clock };
+        byStamp.set(key, entry);
+      }
+      return (entry.delta[entityId] ??= []);
+    };
+
+    for (const [entityId, registers] of this.registers) {
+      if (registers.tombstone) {
+        // An empty replacement carries the tombstone alongside same-stamp field writes
+        opsAt(registers.tombstone, entityId).unshift({ op: 'set', path: [], value: {} });
+      }
+
+      const entity = entities[entityId];
+      for (const [field, stamp] of registers.fields) {
+        opsAt(stamp, entityId).push(
+          entity && field in entity
+            ? { op: 'set', path: [field], value: structuredClone(entity[field]) }
+            : { op: 'del', path: [field] }
+        );
+      }
+    }
+
+    return Array.from(byStamp.values());
+  }
+
+  /**
+   * Export the registers for a snapshot.
+   */
+  public export(): LwwSnapshot {
+    const snapshot: LwwSnapshot = {};
+    for (const [entityId, registers] of this.registers) {
+      snapshot[entityId] = {
+        tombstone: registers.tombstone,
+        fields: Object.fromEntries(registers.fields),
+      };
+    }
+    return snapshot;
+  }
+
+  private applyTombstone(entityId: string, registers: EntityRegisters, clock: HlcStamp, entities: Entities): void {
+    if (registers.tombstone && compareStamps(clock, registers.tombstone) <= 0) {
+      return;
+    }
+
+    registers.tombstone = clock;
+    const entity = entities[entityId];
+
+    for (const field of Object.keys(entity ?? {})) {
+      const stamp = registers.fields.get(field);
+      if (!stamp || compareStamps(stamp, clock) < 0) {
+        delete entity[field];
+      }
+    }
+    for (const [field, stamp] of Array.from(registers.fields)) {
+      if (compareStamps(stamp, clock) < 0) {
+        registers.fields.delete(field);
+      }
+    }
+  }
+
+  private applyField(
+    entityId: string,
+    registers: EntityRegisters,
+    field: string,
+    op: DeltaOp,
+    clock: HlcStamp,
+    entities: Entities
+  ): void {
+    if (isUnsafeKey(field)) {
+      return;
+    }
+    if (registers.tombstone && compareStamps(clock, registers.tombstone) < 0) {
+      return;
+    }
+
+    const current = registers.fields.get(field);
+    if (current && compareStamps(clock, current) <= 0) {
+      return;
+    }
+
+    registers.fields.set(field, clock);
+
+    if (op.op === 'set' && op.path.length === 1) {
+      entities[entityId] ??= {};
+      entities[entityId][field] = structuredClone(op.value);
+    } else if (op.op === 'del' && entities[entityId]) {
+      delete entities[entityId][field];
+    }
+  }
+
+  private registersFor(entityId: string): EntityRegisters {
+    let registers = this.registers.get(entityId);
+    if (!registers) {
+      registers = { tombstone: null, fields: new Map() };
+      this.registers.set(entityId, registers);
+    }
+    return registers;
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Rewrite a deep delta as whole top-level field writes, reading the new
+ * values from `entities`.
+ */
+function toFieldDelta(delta: EntityDelta, entities: Entities): EntityDelta {
+  const fieldDelta: EntityDelta = {};
+
+  for (const [entityId, ops] of Object.entries(delta)) {
+    const entity = entities[entityId];
+
+    if (ops === null || !entity) {
+      fieldDelta[entityId] = null;
+    } else if (isReplacement(ops)) {
+      fieldDelta[entityId] = [{ op: 'set', path: [], value: structuredClone(entity) }];
+    } else {
+      fieldDelta[entityId] = touchedFields(ops).map((field): DeltaOp =>
+        field in entity
+          ? { op: 'set', path: [field], value: structuredClone(entity[field]) }
+          : { op: 'del', path: [field] }
+      );
+    }
+  }
+
+  return fieldDelta;
+}
+
+/**
+ * Whole-field ops turning `before` into `after`; null if the entity was
+ * removed, undefined if nothing changed.
+ */
+function diffFields(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): DeltaOp[] | null | undefined {
+  if (!after) {
+    return before ? null : undefined;
+  }
+  if (!before) {
+    return [{ op: 'set', path: [], value: structuredClone(after) }];
+  }
+
+  const ops: DeltaOp[] = [];
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!(field in after)) {
+      ops.push({ op: 'del', path: [field] });
+    } else if (!isDeepStrictEqual(before[field], after[field])) {
+      ops.push({ op: 'set', path: [field], value: structuredClone(after[field]) });
+    }
+  }
+  return ops.length > 0 ? ops : undefined;
+}
+
+function isReplacement(ops: DeltaOp[]): boolean {
+  return ops.some((op) => op.op === 'set' && op.path.length === 0);
+}
+
+/**
+ * Top-level fields written by a list of ops (a replacement writes all of its fields).
+ */
+function touchedFields(ops: DeltaOp[]): string[] {
+  const fields = new Set<string>();
+
+  for (const op of ops) {
+    if (op.op === 'set' && op.path.length === 0) {
+      Object.keys(op.value as Record<string, unknown>).forEach((field) => fields.add(field));
+    } else if (typeof op.path[0] === 'string') {
+      fields.add(op.path[0]);
+    }
+  }
+
+  return Array.from(fields);
+}
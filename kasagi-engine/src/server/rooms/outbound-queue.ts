@@ -0,0 +1,79 @@
+/**
+ * A delta a room could not publish, encoded as it would have been sent.
+ */
+export interface OutboundDelta {
+  seq: number;
+  /** Message for the room's delta channel. */
+  message: Buffer;
+  /** Standard encoding for the room's log; null when the log is disabled. */
+  log: string | null;
+}
+
+/**
+ * Bounded FIFO of the backplane traffic a room held back during an outage.
+ * Deltas are kept in order up to `capacity`; one more drops them all and the
+ * room owes a full-state publish instead. A snapshot save is only ever
+ * pending or not, since just the latest state is worth saving.
+ */
+export class OutboundQueue {
+  private readonly capacity: number;
+  private deltas: OutboundDelta[];
+  /** Queued deltas were dropped; the room must publish its full state. */
+  public overflowed: boolean;
+  /** A snapshot save is waiting for the queued deltas to go out. */
+  public snapshotPending: boolean;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(0, capacity);
+    this.deltas = [];
+    this.overflowed = false;
+    this.snapshotPending = false;
+  }
+
+  /**
+   * Queue a delta. Returns false if it was dropped because the queue
+   * overflowed (now or earlier).
+   */
+  public push(delta: OutboundDelta): boolean {
+    if (this.overflowed) return false;
+
+    if (this.deltas.length >= this.capacity) {
+      this.deltas = [];
+      this.overflowed = true;
+      return false;
+    }
+
+    this.deltas.push(delta);
+    return true;
+  }
+
+  public peek(): OutboundDelta | undefined {
+    return this.deltas[0];
+  }
+
+  public shift(): void {
+    this.deltas.shift();
+  }
+
+  /**
+   * Drop everything queued. Returns the number of deltas discarded.
+   */
+  public clear(): number {
+    const discarded = this.deltas.length;
+    this.deltas = [];
+    this.overflowed = false;
+    this.snapshotPending = false;
+    return discarded;
+  }
+
+  /**
+   * Whether anything (deltas, a full-state publish or a snapshot) is waiting.
+   */
+  public hasPending(): boolean {
+    return this.deltas.length > 0 || this.overflowed || this.snapshotPending;
+  }
+
+  public get size(): number {
+    return this.deltas.length;
+  }
+}
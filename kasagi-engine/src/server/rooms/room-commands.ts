@@ -0,0 +1,65 @@
+import msgpack from 'msgpack-lite';
+import type { PlayerInput } from './room-state.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Messages exchanged between instances holding the same room, on
+ * the room's command channel. Followers send input/join/leave to the owner; a new
+ * owner announces itself so followers re-send their players. Snapshot
+ * restores are requested from the owner, which announces them once done.
+ * 'close' tells every instance to drop a room that was closed for good.
+ * 'resync' follows a snapshot saved in place of deltas the owner could not
+ * publish; instances behind its seq reload the room. 'rejected' answers a
+ * forwarded input for an entity the player may not modify, so the follower
+ * named by `targetInstanceId` can tell the player's sockets.
+ */
+export type RoomCommand =
+  | { type: 'input'; roomId: string; instanceId: string; input: PlayerInput }
+  | { type: 'join'; roomId: string; instanceId: string; playerId: string; resume?: boolean }
+  | { type: 'leave'; roomId: string; instanceId: string; playerId: string }
+  | { type: 'owner'; roomId: string; instanceId: string }
+  | { type: 'restore'; roomId: string; instanceId: string; version: number }
+  | { type: 'restored'; roomId: string; instanceId: string; version: number; seq: number }
+  | { type: 'close'; roomId: string; instanceId: string }
+  | { type: 'resync'; roomId: string; instanceId: string; seq: number }
+  | { type: 'rejected'; roomId: string; instanceId: string; targetInstanceId: string; playerId: string; entityId: string };
+
+/** RoomCommand without the fields filled in by createRoomCommand. */
+export type RoomCommandBody =
+  | { type: 'input'; input: PlayerInput }
+  | { type: 'join'; playerId: string; resume?: boolean }
+  | { type: 'leave'; playerId: string }
+  | { type: 'owner' }
+  | { type: 'restore'; version: number }
+  | { type: 'restored'; version: number; seq: number }
+  | { type: 'close' }
+  | { type: 'resync'; seq: number }
+  | { type: 'rejected'; targetInstanceId: string; playerId: string; entityId: string };
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Stamp a command with the room and the sending instance's id.
+ */
+export function createRoomCommand(roomId: string, instanceId: string, body: RoomCommandBody): RoomCommand {
+  return { ...body, roomId, instanceId } as RoomCommand;
+}
+
+/**
+ * Encode a command for the backplane (MessagePack).
+ */
+export function encodeRoomCommand(command: RoomCommand): Buffer {
+  return msgpack.encode(command);
+}
+
+/**
+ * Decode a command received from the backplane.
+ */
+export function decodeRoomCommand(message: Buffer): RoomCommand {
+  return msgpack.decode(message) as RoomCommand;
+}
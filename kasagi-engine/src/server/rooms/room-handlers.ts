@@ -0,0 +1,142 @@
+import { logger } from '../../utils/logger.js';
+import { config } from '../config/env.js';
+import { DEFAULT_ROOM_TYPE } from '../../shared/constants.js';
+import type { PlayerInput, RoomStateData } from './room-state.js';
+import type { InputSchema } from './input-schema.js';
+import type { CompactEncodingSchema } from '../../shared/compact-codec.js';
+import type { InterestConfig } from './interest.js';
+
+const handlerLogger = logger.child({ module: 'room-handlers', instanceId: config.instanceId });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The view of a room that handlers operate on.
+ * Handlers mutate `state.entities` directly; the room diffs the result each tick.
+ */
+export interface RoomContext {
+  readonly roomId: string;
+  readonly roomType: string;
+  readonly state: RoomStateData;
+  /** Let a player send inputs targeting a shared entity. Grants live in memory only. */
+  grantOwnership(entityId: string, playerId: string): void;
+  revokeOwnership(entityId: string, playerId?: string): void;
+}
+
+/**
+ * How instances holding the same room stay consistent.
+ * - 'owner': one lease-holding instance simulates the room and mints seq;
+ *   the others forward inputs to it.
+ * - 'lww': every instance simulates and writes; top-level entity fields are
+ *   last-writer-wins registers ordered by hybrid logical clock, so instances
+ *   converge whatever order deltas arrive in.
+ */
+export type RoomSyncMode = 'owner' | 'lww';
+
+/**
+ * How rooms of a type appear in the lobby directory.
+ */
+export interface RoomListingConfig {
+  /** Keep rooms of this type out of the directory. */
+  unlisted?: boolean;
+  /** Player limit shown to clients. Advertised only; joins are not refused. */
+  capacity?: number;
+  /** Fixed tags, or tags derived from the room each time its listing is refreshed. */
+  tags?: string[] | ((room: RoomContext) => string[]);
+}
+
+export interface TickInfo {
+  tick: number;
+  deltaMs: number;
+  now: number;
+}
+
+/**
+ * Game logic for one room type.
+ * Every hook except onInput is optional.
+ */
+export interface RoomHandler {
+  /** Schema that input payloads must satisfy before they are queued. */
+  inputSchema?: InputSchema;
+  /** Field dictionary seed and numeric packing for compact delta encoding. */
+  encodingSchema?: CompactEncodingSchema;
+  /** Area-of-interest filtering; without it every client receives every entity. */
+  interest?: InterestConfig;
+  /** Cross-instance consistency model (defaults to 'owner'). */
+  syncMode?: RoomSyncMode;
+  /** Lobby directory metadata; without it rooms are listed with no capacity or tags. */
+  listing?: RoomListingConfig;
+  /** Called once when the room is created in memory (fresh or from a snapshot). */
+  onCreate?(room: RoomContext): void;
+  /** Called when a player's first socket joins the room. */
+  onJoin?(room: RoomContext, playerId: string): void;
+  /** Called for each queued input during a tick. */
+  onInput(room: RoomContext, input: PlayerInput): void;
+  /** Called once per tick, after queued inputs are applied. */
+  onTick?(room: RoomContext, tick: TickInfo): void;
+  /** Called when a player's last socket leaves the room. */
+  onLeave?(room: RoomContext, playerId: string): void;
+  /** Called when the room is destroyed on this instance. */
+  onDispose?(room: RoomContext): void;
+}
+
+// ============================================================================
+// Built-in Handlers
+// ============================================================================
+
+/**
+ * Shallow-merge the input payload into the target entity.
+ */
+export const defaultRoomHandler: RoomHandler = {
+  onInput(room, input) {
+    const { playerId, payload } = input;
+    const entityId = input.entityId ?? playerId;
+
+    room.state.entities[entityId] = {
+      ...room.state.entities[entityId],
+      ...payload,
+      lastUpdate: Date.now(),
+    };
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const handlers: Map<string, RoomHandler> = new Map([[DEFAULT_ROOM_TYPE, defaultRoomHandler]]);
+
+/**
+ * Register the handler for a room type. Replaces any existing registration.
+ */
+export function registerRoomHandler(roomType: string, handler: RoomHandler): void {
+  if (handlers.has(roomType)) {
+    handlerLogger.warn({ roomType }, 'Replacing existing room handler');
+  }
+
+  handlers.set(roomType, handler);
+  handlerLogger.info({ roomType }, 'Room handler registered');
+}
+
+/**
+ * Get the handler for a room type.
+ */
+export function getRoomHandler(roomType: string): RoomHandler | undefined {
+  return handlers.get(roomType);
+}
+
+/**
+ * Check if a room type has a registered handler.
+ */
+export function hasRoomHandler(roomType: string): boolean {
+  return handlers.has(roomType);
+}
+
+/**
+ * Get all registered room types.
+ */
+export function getRoomTypes(): string[] {
+  return Array.from(handlers.keys());
+}
@@ -2,288 +2,927 @@ import type { WebSocket } from 'ws';
 import { logger } from '../../utils/logger.js';
 import { config } from '../config/env.js';
 import { RoomState } from './room-state.js';
-import type { KasagiSocket } from '../../shared/types.js';
+import {
+  decodeRemoteDelta,
+  forgetRemoteDictionaries,
+  isStandardDeltaFrame,
+  type RemoteDictionaries,
+} from './delta-engine.js';
+import { createRoomCommand, decodeRoomCommand, encodeRoomCommand } from './room-commands.js';
+import { getRoomHandler } from './room-handlers.js';
+import { DEFAULT_ROOM_TYPE, ROOM_LIST_DEFAULT_LIMIT, ROOM_LIST_MAX_LIMIT } from '../../shared/constants.js';
+import type {
+  Backplane,
+  InstanceInfo,
+  RoomChannel,
+  RoomListing,
+  RoomSweepReport,
+  SnapshotVersionInfo,
+} from '../backplane/backplane.js';
+import type { KasagiSocket, RoomListFilter, RoomListPage, RoomSummary } from '../../shared/types.js';
+
+export interface RoomStats {
+  totalRooms: number;
+  totalClients: number;
+  /** Deltas held back across all rooms while the backplane is unreachable. */
+  totalOutboundQueued: number;
+  roomDetails: Array<{
+    roomId: string;
+    roomType: string;
+    clients: number;
+    tick: number;
+    seq: number;
+    owner: boolean;
+    outboundQueued: number;
+  }>;
+}
 
-const managerLogger = logger.child({ module: 'room-manager', instanceId: config.instanceId });
+/**
+ * The rooms held by one engine instance, connected to the other instances
+ * through a backplane. A server process normally has exactly one (see
+ * initRoomManager); tests can create several over a shared in-memory backplane.
+ */
+export class RoomManager {
+  public readonly backplane: Backplane;
+  private readonly managerLogger: typeof logger;
 
-// Room storage
-const rooms: Map<string, RoomState> = new Map();
+  // Room storage
+  private readonly rooms: Map<string, RoomState> = new Map();
 
-// Pending room loads (to prevent race conditions)
-const pendingLoads: Map<string, Promise<RoomState>> = new Map();
+  // Pending room loads (to prevent race conditions)
+  private readonly pendingLoads: Map<string, Promise<RoomState>> = new Map();
 
-// Pending room deletions (empty-room TTL)
-const pendingDeletes: Map<string, NodeJS.Timeout> = new Map();
+  // Pending room deletions (empty-room TTL)
+  private readonly pendingDeletes: Map<string, NodeJS.Timeout> = new Map();
 
-/**
- * Get an existing room or create a new one if it doesn't exist.
- * Attempts to load from Redis snapshot first.
- */
-export async function getOrCreateRoom(roomId: string): Promise<RoomState> {
-  // Check if room already exists in memory
-  let room = rooms.get(roomId);
-  if (room) {
-    managerLogger.debug({ roomId }, 'Retrieved existing room from memory');
-    return room;
-  }
+  // Compact dictionaries for deltas published by other instances
+  private readonly remoteDictionaries: RemoteDictionaries = new Map();
 
-  // Check if there's a pending load for this room
-  const pendingLoad = pendingLoads.get(roomId);
-  if (pendingLoad) {
-    managerLogger.debug({ roomId }, 'Waiting for pending room load');
-    return pendingLoad;
-  }
+  // Room data expiry refresh and orphan sweep (see startMaintenance)
+  private maintenanceTimers: NodeJS.Timeout[] = [];
 
-  // Create a promise for this load operation
-  const loadPromise = (async () => {
-    try {
-      // Try to load from Redis snapshot first
-      const restoredRoom = await RoomState.loadSnapshot(roomId);
-      
-      if (restoredRoom) {
-        rooms.set(roomId, restoredRoom);
-        managerLogger.info(
-          { roomId, totalRooms: rooms.size, tick: restoredRoom.state.tick, seq: restoredRoom.state.seq },
-          'Room restored from snapshot'
-        );
-        return restoredRoom;
-      }
+  // Instance registry heartbeat (see startHeartbeat)
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private readonly startedAt: number = Date.now();
+
+  // Directory read shared by listRooms calls within config.registry.roomListCacheMs
+  private roomDirectory: { listings: Promise<RoomListing[]>; readAt: number } | null = null;
+
+  constructor(backplane: Backplane) {
+    this.backplane = backplane;
+    this.managerLogger = logger.child({ module: 'room-manager', instanceId: backplane.instanceId });
+    backplane.onMessage((roomId, channel, message) => this.handleBackplaneMessage(roomId, channel, message));
+    backplane.onReconnect(() => this.flushOutbound());
+  }
 
-      // Create fresh room if no snapshot exists
-      room = new RoomState(roomId);
-      rooms.set(roomId, room);
-      managerLogger.info({ roomId, totalRooms: rooms.size }, 'New room created');
+  /**
+   * Get an existing room or create a new one if it doesn't exist.
+   * Attempts to load from the backplane's snapshot first.
+   * The room type only applies when the room is created; an existing room keeps its own.
+   * The room is owned by this instance if its lease was free, otherwise it follows the owner.
+   */
+  public async getOrCreateRoom(roomId: string, roomType?: string): Promise<RoomState> {
+    // Check if room already exists in memory
+    let room = this.rooms.get(roomId);
+    if (room) {
+      this.managerLogger.debug({ roomId }, 'Retrieved existing room from memory');
       return room;
-    } finally {
-      // Clean up pending load
-      pendingLoads.delete(roomId);
     }
-  })();
 
-  pendingLoads.set(roomId, loadPromise);
-  return loadPromise;
-}
+    // Check if there's a pending load for this room
+    const pendingLoad = this.pendingLoads.get(roomId);
+    if (pendingLoad) {
+      this.managerLogger.debug({ roomId }, 'Waiting for pending room load');
+      return pendingLoad;
+    }
 
-/**
- * Synchronous version - only gets room if already loaded.
- */
-export function getRoom(roomId: string): RoomState | undefined {
-  return rooms.get(roomId);
-}
+    // Create a promise for this load operation
+    const loadPromise = (async () => {
+      try {
+        // Claim the lease before loading so an owner never starts from stale state.
+        // 'lww' rooms have no owner and skip the lease.
+        const lww = getRoomHandler(roomType ?? DEFAULT_ROOM_TYPE)?.syncMode === 'lww';
+        const owner = lww || (await this.backplane.acquireLease(roomId, config.ownership.leaseTtlMs));
+
+        // Try to load from the backplane's snapshot first
+        const restoredRoom = await RoomState.loadSnapshot(roomId, this.backplane, { roomType, owner });
+
+        if (restoredRoom) {
+          this.rooms.set(roomId, restoredRoom);
+          restoredRoom.start();
+          this.announceRoom(roomId);
+          this.managerLogger.info(
+            { roomId, totalRooms: this.rooms.size, tick: restoredRoom.state.tick, seq: restoredRoom.state.seq, owner },
+            'Room restored from snapshot'
+          );
+          return restoredRoom;
+        }
 
-/**
- * Delete a room and clean up its resources.
- * Saves final snapshot before deletion.
- */
-export async function deleteRoom(roomId: string): Promise<boolean> {
-  const room = rooms.get(roomId);
+        // Create fresh room if no snapshot exists
+        room = new RoomState(roomId, this.backplane, undefined, { roomType, owner });
+        this.rooms.set(roomId, room);
+        room.start();
+        this.announceRoom(roomId);
+        this.managerLogger.info({ roomId, roomType: room.roomType, totalRooms: this.rooms.size, owner }, 'New room created');
+        return room;
+      } finally {
+        // Clean up pending load
+        this.pendingLoads.delete(roomId);
+      }
+    })();
 
-  if (room) {
-    // Cancel any pending delete timer
-    const pending = pendingDeletes.get(roomId);
-    if (pending) {
-      clearTimeout(pending);
-      pendingDeletes.delete(roomId);
+    this.pendingLoads.set(roomId, loadPromise);
+    return loadPromise;
+  }
+
+  /**
+   * Note a room newly hosted here: refresh its key expiry (keys written
+   * before expiry was enabled get a TTL as soon as the room is used) and
+   * list this instance in its instance index.
+   */
+  private announceRoom(roomId: string): void {
+    void this.backplane.touchRoom(roomId);
+    void this.backplane.addRoomInstances([roomId], config.registry.ttlMs);
+    this.publishListing(roomId);
+  }
+
+  /**
+   * Refresh this instance's directory listing for a room, e.g. after its player count changed.
+   */
+  private publishListing(roomId: string): void {
+    const listing = this.buildListing(roomId, Date.now() + config.registry.ttlMs);
+    if (listing) {
+      void this.backplane.publishRoomListings([listing]);
     }
+  }
 
-    // Check if room has connected clients
-    if (room.getClientCount() > 0) {
-      managerLogger.warn(
-        { roomId, clientCount: room.getClientCount() },
-        'Attempted to delete room with connected clients'
-      );
+  /**
+   * Build this instance's directory listing for a hosted room, or null if
+   * its room type is unlisted.
+   */
+  private buildListing(roomId: string, expiresAt: number): RoomListing | null {
+    const room = this.rooms.get(roomId);
+    const listing = room && getRoomHandler(room.roomType)?.listing;
+    if (!room || listing?.unlisted) {
+      return null;
     }
 
-    // Save final snapshot before deletion
-    try {
-      await room.saveSnapshot();
-      managerLogger.info({ roomId }, 'Final snapshot saved before room deletion');
-    } catch (err) {
-      managerLogger.error(
-        { roomId, error: (err as Error).message },
-        'Failed to save final snapshot'
-      );
+    let tags = listing?.tags ?? [];
+    if (typeof tags === 'function') {
+      try {
+        tags = tags(room);
+      } catch (err) {
+        this.managerLogger.error({ roomId, error: (err as Error).message }, 'Room listing tags failed');
+        tags = [];
+      }
     }
 
-    // Cleanup any internal timers (disconnect grace, etc.)
-    room.shutdown();
+    return {
+      roomId,
+      instanceId: this.backplane.instanceId,
+      roomType: room.roomType,
+      players: room.getPlayerCount(),
+      capacity: listing?.capacity ?? null,
+      tags,
+      expiresAt,
+    };
+  }
 
-    rooms.delete(roomId);
-    managerLogger.info({ roomId, totalRooms: rooms.size }, 'Room destroyed');
-    return true;
+  /**
+   * Synchronous version - only gets room if already loaded.
+   */
+  public getRoom(roomId: string): RoomState | undefined {
+    return this.rooms.get(roomId);
   }
 
-  managerLogger.warn({ roomId }, 'Attempted to delete non-existent room');
-  return false;
-}
+  /**
+   * Delete a room and clean up its resources.
+   * Saves final snapshot before deletion.
+   */
+  public async deleteRoom(roomId: string): Promise<boolean> {
+    const room = this.rooms.get(roomId);
+
+    if (room) {
+      // Cancel any pending delete timer
+      const pending = this.pendingDeletes.get(roomId);
+      if (pending) {
+        clearTimeout(pending);
+        this.pendingDeletes.delete(roomId);
+      }
 
-/**
- * Join a room - get or create room and add client.
- */
-export async function joinRoom(roomId: string, socket: WebSocket): Promise<RoomState> {
-  const room = await getOrCreateRoom(roomId);
+      // Check if room has connected clients
+      if (room.getClientCount() > 0) {
+        this.managerLogger.warn(
+          { roomId, clientCount: room.getClientCount() },
+          'Attempted to delete room with connected clients'
+        );
+      }
 
-  // Cancel pending deletion if room was empty and waiting for TTL
-  const pending = pendingDeletes.get(roomId);
-  if (pending) {
-    clearTimeout(pending);
-    pendingDeletes.delete(roomId);
+      // Flush queued inputs and stop ticking so the final snapshot is complete
+      room.stop();
+
+      // Save final snapshot before deletion
+      try {
+        await room.saveSnapshot();
+        this.managerLogger.info({ roomId }, 'Final snapshot saved before room deletion');
+      } catch (err) {
+        this.managerLogger.error(
+          { roomId, error: (err as Error).message },
+          'Failed to save final snapshot'
+        );
+      }
+
+      // Let an instance that still has clients take over straight away
+      await room.releaseOwnership();
+
+      // Cleanup any internal timers (disconnect grace, etc.)
+      room.shutdown();
+      forgetRemoteDictionaries(roomId, this.remoteDictionaries);
+
+      this.rooms.delete(roomId);
+      await Promise.all([
+        this.backplane.unsubscribe(roomId),
+        this.backplane.removeRoomInstance(roomId),
+        this.backplane.removeRoomListing(roomId),
+      ]);
+      this.managerLogger.info({ roomId, totalRooms: this.rooms.size }, 'Room destroyed');
+      return true;
+    }
+
+    this.managerLogger.warn({ roomId }, 'Attempted to delete non-existent room');
+    return false;
   }
 
-  room.addClient(socket);
+  /**
+   * Join a room - get or create room and add client.
+   */
+  public async joinRoom(roomId: string, socket: WebSocket, roomType?: string): Promise<RoomState> {
+    // Subscribe before loading so no delta published after the snapshot is missed
+    await this.backplane.subscribe(roomId);
+    const room = await this.getOrCreateRoom(roomId, roomType);
 
-  // Update socket metadata
-  const kasagiSocket = socket as KasagiSocket;
-  kasagiSocket.roomId = roomId;
+    // Cancel pending deletion if room was empty and waiting for TTL
+    const pending = this.pendingDeletes.get(roomId);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingDeletes.delete(roomId);
+    }
 
-  managerLogger.info(
-    { roomId, clientCount: room.getClientCount() },
-    'Client joined room'
-  );
+    room.addClient(socket);
+    this.publishListing(roomId);
 
-  return room;
-}
+    // Update socket metadata
+    const kasagiSocket = socket as KasagiSocket;
+    kasagiSocket.roomId = roomId;
 
-/**
- * Leave a room - remove client and cleanup if empty.
- */
-export async function leaveRoom(roomId: string, socket: WebSocket): Promise<void> {
-  const room = rooms.get(roomId);
+    this.managerLogger.info(
+      { roomId, clientCount: room.getClientCount() },
+      'Client joined room'
+    );
 
-  if (!room) {
-    managerLogger.warn({ roomId }, 'Attempted to leave non-existent room');
-    return;
+    return room;
   }
 
-  room.removeClient(socket);
+  /**
+   * Leave a room - remove client and cleanup if empty.
+   */
+  public async leaveRoom(roomId: string, socket: WebSocket): Promise<void> {
+    const room = this.rooms.get(roomId);
+
+    if (!room) {
+      this.managerLogger.warn({ roomId }, 'Attempted to leave non-existent room');
+      return;
+    }
+
+    room.removeClient(socket);
+    this.publishListing(roomId);
 
-  // Update socket metadata
-  const kasagiSocket = socket as KasagiSocket;
-  kasagiSocket.roomId = null;
-  kasagiSocket.playerId = null;
+    // Update socket metadata
+    const kasagiSocket = socket as KasagiSocket;
+    kasagiSocket.roomId = null;
+    kasagiSocket.playerId = null;
 
-  managerLogger.info(
-    { roomId, clientCount: room.getClientCount() },
-    'Client left room'
-  );
+    this.managerLogger.info(
+      { roomId, clientCount: room.getClientCount() },
+      'Client left room'
+    );
+
+    await this.deleteIfEmpty(roomId, room);
+  }
+
+  /**
+   * Delete a room with no clients, after config.game.roomEmptyTtlMs.
+   */
+  private async deleteIfEmpty(roomId: string, room: RoomState): Promise<void> {
+    if (room.getClientCount() > 0) {
+      return;
+    }
 
-  // Delete room if empty (with TTL)
-  if (room.getClientCount() === 0) {
     const ttlMs = config.game.roomEmptyTtlMs;
     if (ttlMs <= 0) {
-      await deleteRoom(roomId);
+      await this.deleteRoom(roomId);
       return;
     }
 
     // Only schedule once
-    if (!pendingDeletes.has(roomId)) {
+    if (!this.pendingDeletes.has(roomId)) {
       const timer = setTimeout(() => {
-        const current = rooms.get(roomId);
+        const current = this.rooms.get(roomId);
         if (current && current.getClientCount() === 0) {
-          void deleteRoom(roomId);
+          void this.deleteRoom(roomId);
         } else {
           // Someone rejoined; no-op
-          pendingDeletes.delete(roomId);
+          this.pendingDeletes.delete(roomId);
         }
       }, ttlMs);
-      pendingDeletes.set(roomId, timer);
-      managerLogger.info({ roomId, ttlMs }, 'Scheduled empty room deletion');
+      this.pendingDeletes.set(roomId, timer);
+      this.managerLogger.info({ roomId, ttlMs }, 'Scheduled empty room deletion');
     }
   }
-}
 
-/**
- * Check if a room exists in memory.
- */
-export function hasRoom(roomId: string): boolean {
-  return rooms.has(roomId);
-}
+  /**
+   * Close a room for good: every instance holding it drops it and tells its
+   * clients they left, and all of its stored data is deleted. Unlike
+   * deleteRoom, which only unloads an empty room here, a closed room starts
+   * fresh if it is joined again.
+   */
+  public async closeRoom(roomId: string): Promise<void> {
+    const command = createRoomCommand(roomId, this.backplane.instanceId, { type: 'close' });
+    await this.backplane.publish(roomId, 'command', encodeRoomCommand(command));
+
+    await this.evictRoom(roomId);
+    await this.backplane.deleteRoomData(roomId);
+    this.managerLogger.info({ roomId }, 'Room closed');
+  }
 
-/**
- * Get all room IDs.
- */
-export function getAllRoomIds(): string[] {
-  return Array.from(rooms.keys());
-}
+  /**
+   * Drop a closed room from memory without saving it.
+   */
+  private async evictRoom(roomId: string): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return;
+    }
 
-/**
- * Get the total number of rooms.
- */
-export function getRoomCount(): number {
-  return rooms.size;
-}
+    const pending = this.pendingDeletes.get(roomId);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingDeletes.delete(roomId);
+    }
 
-/**
- * Delete empty rooms (no connected clients).
- */
-export async function cleanupEmptyRooms(): Promise<number> {
-  let deletedCount = 0;
-  const roomsToDelete: string[] = [];
-
-  for (const [roomId, room] of rooms) {
-    if (room.getClientCount() === 0) {
-      // If a TTL timer is already scheduled, let it handle cleanup.
-      if (!pendingDeletes.has(roomId)) {
-        roomsToDelete.push(roomId);
+    room.stop();
+    room.evictClients();
+    room.shutdown();
+    forgetRemoteDictionaries(roomId, this.remoteDictionaries);
+
+    this.rooms.delete(roomId);
+    await Promise.all([
+      this.backplane.unsubscribe(roomId),
+      this.backplane.removeRoomInstance(roomId),
+      this.backplane.removeRoomListing(roomId),
+    ]);
+    this.managerLogger.info({ roomId, totalRooms: this.rooms.size }, 'Closed room evicted');
+  }
+
+  /**
+   * Start refreshing the expiry of hosted rooms' data and periodically
+   * sweeping orphaned room data (config.roomKeys). Does nothing when room
+   * data never expires.
+   */
+  public startMaintenance(): void {
+    const { ttlMs, refreshIntervalMs, sweepIntervalMs } = config.roomKeys;
+    if (ttlMs <= 0 || this.maintenanceTimers.length > 0) {
+      return;
+    }
+
+    this.maintenanceTimers.push(
+      setInterval(() => {
+        for (const roomId of this.rooms.keys()) {
+          void this.backplane.touchRoom(roomId);
+        }
+      }, refreshIntervalMs)
+    );
+
+    if (sweepIntervalMs > 0) {
+      this.maintenanceTimers.push(setInterval(() => void this.sweepOrphanedRooms(), sweepIntervalMs));
+    }
+  }
+
+  public stopMaintenance(): void {
+    this.maintenanceTimers.forEach((timer) => clearInterval(timer));
+    this.maintenanceTimers = [];
+  }
+
+  /**
+   * Heartbeat into the instance registry every config.registry.heartbeatIntervalMs,
+   * renewing this instance's entry, its place in each hosted room's index and
+   * its room directory listings.
+   */
+  public startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    void this.heartbeat();
+    this.heartbeatTimer = setInterval(() => void this.heartbeat(), config.registry.heartbeatIntervalMs);
+  }
+
+  /**
+   * Stop heartbeating and remove this instance from the registry, room indexes and room directory.
+   */
+  public async stopHeartbeat(): Promise<void> {
+    if (!this.heartbeatTimer) return;
+
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    await Promise.all([
+      this.backplane.unregisterInstance(),
+      ...this.getAllRoomIds().flatMap((roomId) => [
+        this.backplane.removeRoomInstance(roomId),
+        this.backplane.removeRoomListing(roomId),
+      ]),
+    ]);
+    this.managerLogger.info('Instance unregistered');
+  }
+
+  private async heartbeat(): Promise<void> {
+    const now = Date.now();
+    const { ttlMs } = config.registry;
+    const stats = this.getRoomStats();
+    const listings = this.getAllRoomIds()
+      .map((roomId) => this.buildListing(roomId, now + ttlMs))
+      .filter((listing): listing is RoomListing => listing !== null);
+
+    await Promise.all([
+      this.backplane.registerInstance({
+        instanceId: this.backplane.instanceId,
+        address: config.registry.address,
+        startedAt: this.startedAt,
+        rooms: stats.totalRooms,
+        clients: stats.totalClients,
+        heartbeatAt: now,
+        expiresAt: now + ttlMs,
+      }),
+      this.backplane.addRoomInstances(this.getAllRoomIds(), ttlMs),
+      this.backplane.publishRoomListings(listings),
+    ]);
+  }
+
+  /**
+   * Get the live instances in the registry.
+   */
+  public listInstances(): Promise<InstanceInfo[]> {
+    return this.backplane.listInstances();
+  }
+
+  /**
+   * Get the live instances hosting a room, e.g. to route a join to one of them.
+   */
+  public async getRoomInstances(roomId: string): Promise<InstanceInfo[]> {
+    const [hostIds, instances] = await Promise.all([
+      this.backplane.getRoomInstances(roomId),
+      this.backplane.listInstances(),
+    ]);
+    return instances.filter((instance) => hostIds.includes(instance.instanceId));
+  }
+
+  /**
+   * Browse the cluster-wide room directory: listings from every instance
+   * are merged per room (player counts summed), filtered, and sorted
+   * fullest first so paging is stable between refreshes. The listings are
+   * read at most once per config.registry.roomListCacheMs.
+   */
+  public async listRooms(filter: RoomListFilter = {}): Promise<RoomListPage> {
+    const byRoom: Map<string, RoomSummary> = new Map();
+
+    for (const listing of await this.readRoomDirectory()) {
+      const summary = byRoom.get(listing.roomId);
+      if (summary) {
+        summary.players += listing.players;
+        summary.instances++;
+      } else {
+        byRoom.set(listing.roomId, {
+          roomId: listing.roomId,
+          roomType: listing.roomType,
+          players: listing.players,
+          capacity: listing.capacity,
+          tags: listing.tags,
+          instances: 1,
+        });
+      }
+    }
+
+    const matching = Array.from(byRoom.values())
+      .filter((room) => filter.roomType === undefined || room.roomType === filter.roomType)
+      .filter((room) => (filter.tags ?? []).every((tag) => room.tags.includes(tag)))
+      .filter((room) => !filter.hasSpace || room.capacity === null || room.players < room.capacity)
+      .sort((a, b) => b.players - a.players || (a.roomId < b.roomId ? -1 : a.roomId > b.roomId ? 1 : 0));
+
+    const offset = filter.offset ?? 0;
+    const limit = Math.min(filter.limit ?? ROOM_LIST_DEFAULT_LIMIT, ROOM_LIST_MAX_LIMIT);
+    return { rooms: matching.slice(offset, offset + limit), total: matching.length, offset, limit };
+  }
+
+  private readRoomDirectory(): Promise<RoomListing[]> {
+    const now = Date.now();
+    if (!this.roomDirectory || now - this.roomDirectory.readAt >= config.registry.roomListCacheMs) {
+      const listings = this.backplane.listRoomListings();
+      this.roomDirectory = { listings, readAt: now };
+      // Never serve a failed read from the cache
+      listings.catch(() => {
+        if (this.roomDirectory?.listings === listings) this.roomDirectory = null;
+      });
+    }
+    return this.roomDirectory.listings;
+  }
+
+  /**
+   * Remove orphaned room data and log what was found.
+   * Resolves to null if another instance is sweeping or the sweep failed.
+   */
+  public async sweepOrphanedRooms(): Promise<RoomSweepReport | null> {
+    try {
+      const report = await this.backplane.sweepOrphanedRooms();
+      if (!report) {
+        this.managerLogger.debug('Orphaned room sweep skipped, another instance is sweeping');
+        return null;
+      }
+
+      this.managerLogger.info(
+        {
+          scannedKeys: report.scannedKeys,
+          removedKeys: report.removedKeys,
+          adoptedKeys: report.adoptedKeys,
+          orphanedRoomCount: report.orphanedRooms.length,
+          orphanedRooms: report.orphanedRooms.slice(0, 20),
+        },
+        'Orphaned room sweep completed'
+      );
+      return report;
+    } catch (err) {
+      this.managerLogger.error({ error: (err as Error).message }, 'Orphaned room sweep failed');
+      return null;
+    }
+  }
+
+  /**
+   * List the versions in a room's snapshot history, newest first.
+   */
+  public listSnapshotVersions(roomId: string): Promise<SnapshotVersionInfo[]> {
+    return this.backplane.listSnapshotVersions(roomId);
+  }
+
+  /**
+   * Restore a room to a version from its snapshot history, on every instance.
+   * A room not hosted here is loaded for the restore (and deleted again once
+   * empty); if another instance owns it, the restore is forwarded there.
+   */
+  public async restoreRoomSnapshot(
+    roomId: string,
+    version: number
+  ): Promise<'restored' | 'forwarded' | 'not-found'> {
+    // Check first so a missing version never materializes an empty room
+    if (!(await this.backplane.loadSnapshotVersion(roomId, version))) {
+      return 'not-found';
+    }
+
+    await this.backplane.subscribe(roomId);
+    const room = await this.getOrCreateRoom(roomId);
+    const result = await room.restoreSnapshot(version);
+
+    this.managerLogger.warn({ roomId, version, result }, 'Snapshot restore requested');
+    await this.deleteIfEmpty(roomId, room);
+    return result;
+  }
+
+  /**
+   * Check if a room exists in memory.
+   */
+  public hasRoom(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  /**
+   * Get all room IDs.
+   */
+  public getAllRoomIds(): string[] {
+    return Array.from(this.rooms.keys());
+  }
+
+  /**
+   * Get the total number of rooms.
+   */
+  public getRoomCount(): number {
+    return this.rooms.size;
+  }
+
+  /**
+   * Delete empty rooms (no connected clients).
+   */
+  public async cleanupEmptyRooms(): Promise<number> {
+    let deletedCount = 0;
+    const roomsToDelete: string[] = [];
+
+    for (const [roomId, room] of this.rooms) {
+      if (room.getClientCount() === 0) {
+        // If a TTL timer is already scheduled, let it handle cleanup.
+        if (!this.pendingDeletes.has(roomId)) {
+          roomsToDelete.push(roomId);
+        }
       }
     }
+
+    for (const roomId of roomsToDelete) {
+      await this.deleteRoom(roomId);
+      deletedCount++;
+    }
+
+    if (deletedCount > 0) {
+      this.managerLogger.info({ deletedCount, remainingRooms: this.rooms.size }, 'Cleanup completed');
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * Get room statistics.
+   */
+  public getRoomStats(): RoomStats {
+    let totalClients = 0;
+    let totalOutboundQueued = 0;
+    const roomDetails: RoomStats['roomDetails'] = [];
+
+    for (const [roomId, room] of this.rooms) {
+      const clientCount = room.getClientCount();
+      const outboundQueued = room.getOutboundQueueSize();
+      totalClients += clientCount;
+      totalOutboundQueued += outboundQueued;
+      roomDetails.push({
+        roomId,
+        roomType: room.roomType,
+        clients: clientCount,
+        tick: room.state.tick,
+        seq: room.state.seq,
+        owner: room.isOwner(),
+        outboundQueued,
+      });
+    }
+
+    return {
+      totalRooms: this.rooms.size,
+      totalClients,
+      totalOutboundQueued,
+      roomDetails,
+    };
+  }
+
+  /**
+   * Send what every room held back while the backplane was unreachable.
+   */
+  private flushOutbound(): void {
+    this.managerLogger.info({ rooms: this.rooms.size }, 'Backplane reconnected, flushing outbound queues');
+    for (const room of this.rooms.values()) {
+      void room.flushOutbound();
+    }
+  }
+
+  /**
+   * Save all room snapshots (useful for graceful shutdown).
+   */
+  public async saveAllSnapshots(): Promise<void> {
+    this.managerLogger.info({ roomCount: this.rooms.size }, 'Saving all room snapshots');
+
+    const savePromises: Promise<void>[] = [];
+
+    for (const room of this.rooms.values()) {
+      savePromises.push(room.saveSnapshot());
+    }
+
+    await Promise.allSettled(savePromises);
+    this.managerLogger.info('All snapshots saved');
+  }
+
+  /**
+   * Release every room lease held by this instance (graceful shutdown), so
+   * other instances can take over without waiting for the leases to expire.
+   */
+  public async releaseAllOwnership(): Promise<void> {
+    const releasePromises: Promise<void>[] = [];
+
+    for (const room of this.rooms.values()) {
+      releasePromises.push(room.releaseOwnership());
+    }
+
+    await Promise.allSettled(releasePromises);
+    this.managerLogger.info('All room leases released');
   }
 
-  for (const roomId of roomsToDelete) {
-    await deleteRoom(roomId);
-    deletedCount++;
+  /**
+   * Route a message from the backplane to the local copy of its room.
+   * Only rooms hosted here matter; a remote message never materializes a room.
+   */
+  private handleBackplaneMessage(roomId: string, channel: RoomChannel, message: Buffer): void {
+    try {
+      if (channel === 'command') {
+        this.handleRoomCommand(roomId, message);
+      } else {
+        this.handleRemoteDelta(roomId, message);
+      }
+    } catch (err) {
+      this.managerLogger.error(
+        { error: (err as Error).message, roomId, channel },
+        'Failed to process backplane message'
+      );
+    }
   }
 
-  if (deletedCount > 0) {
-    managerLogger.info({ deletedCount, remainingRooms: rooms.size }, 'Cleanup completed');
+  /**
+   * Apply a delta published by another instance to the local copy of its room.
+   */
+  private handleRemoteDelta(roomId: string, message: Buffer): void {
+    // Decode MessagePack → delta object (standard or compact)
+    const delta = decodeRemoteDelta(message, this.remoteDictionaries);
+
+    // Skip if this delta came from our own instance
+    if (delta.instanceId === this.backplane.instanceId) {
+      this.managerLogger.debug({ roomId: delta.roomId, seq: delta.seq }, 'Ignoring own delta');
+      return;
+    }
+
+    // Validate roomId matches delta
+    if (roomId !== delta.roomId) {
+      this.managerLogger.warn({ roomId, deltaRoomId: delta.roomId }, 'Room ID mismatch');
+      return;
+    }
+
+    this.managerLogger.info(
+      { roomId, fromInstance: delta.instanceId, seq: delta.seq, tick: delta.tick },
+      'Received remote delta'
+    );
+
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      this.managerLogger.debug({ roomId, seq: delta.seq }, 'Ignoring delta for room not hosted here');
+      return;
+    }
+
+    // A standard frame is exactly what standard clients receive, so it is relayed as is
+    if (room.applyRemoteDelta(delta, isStandardDeltaFrame(message) ? message : undefined)) {
+      this.managerLogger.info(
+        { roomId, seq: delta.seq, fromInstance: delta.instanceId },
+        'Remote delta applied successfully'
+      );
+    }
   }
 
-  return deletedCount;
+  /**
+   * Route a command from another instance to the local copy of its room.
+   */
+  private handleRoomCommand(roomId: string, message: Buffer): void {
+    const command = decodeRoomCommand(message);
+
+    if (command.instanceId === this.backplane.instanceId) {
+      return;
+    }
+
+    if (roomId !== command.roomId) {
+      this.managerLogger.warn({ roomId, commandRoomId: command.roomId }, 'Room ID mismatch');
+      return;
+    }
+
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return;
+    }
+
+    this.managerLogger.debug(
+      { roomId, type: command.type, fromInstance: command.instanceId },
+      'Received room command'
+    );
+
+    if (command.type === 'close') {
+      void this.evictRoom(roomId);
+      return;
+    }
+    room.handleRemoteCommand(command);
+  }
 }
 
+// ============================================================================
+// Process-wide Room Manager
+// ============================================================================
+
+let defaultManager: RoomManager | null = null;
+
 /**
- * Get room statistics.
+ * Create the room manager used by the WebSocket server and the functions below.
+ * Must be called once at startup, before any client connects.
  */
-export function getRoomStats(): {
-  totalRooms: number;
-  totalClients: number;
-  roomDetails: Array<{ roomId: string; clients: number; tick: number; seq: number }>;
-} {
-  let totalClients = 0;
-  const roomDetails: Array<{ roomId: string; clients: number; tick: number; seq: number }> = [];
-
-  for (const [roomId, room] of rooms) {
-    const clientCount = room.getClientCount();
-    totalClients += clientCount;
-    roomDetails.push({
-      roomId,
-      clients: clientCount,
-      tick: room.state.tick,
-      seq: room.state.seq,
-    });
+export function initRoomManager(backplane: Backplane): RoomManager {
+  if (defaultManager) {
+    throw new Error('Room manager already initialized');
   }
 
-  return {
-    totalRooms: rooms.size,
-    totalClients,
-    roomDetails,
-  };
+  defaultManager = new RoomManager(backplane);
+  return defaultManager;
 }
 
 /**
- * Save all room snapshots (useful for graceful shutdown).
+ * Get the process-wide room manager.
  */
-export async function saveAllSnapshots(): Promise<void> {
-  managerLogger.info({ roomCount: rooms.size }, 'Saving all room snapshots');
-  
-  const savePromises: Promise<void>[] = [];
-  
-  for (const room of rooms.values()) {
-    savePromises.push(room.saveSnapshot());
+export function getRoomManager(): RoomManager {
+  if (!defaultManager) {
+    throw new Error('Room manager not initialized');
   }
+  return defaultManager;
+}
 
-  await Promise.allSettled(savePromises);
-  managerLogger.info('All snapshots saved');
+export function getOrCreateRoom(roomId: string, roomType?: string): Promise<RoomState> {
+  return getRoomManager().getOrCreateRoom(roomId, roomType);
 }
 
-export { rooms };
+export function getRoom(roomId: string): RoomState | undefined {
+  return getRoomManager().getRoom(roomId);
+}
+
+export function deleteRoom(roomId: string): Promise<boolean> {
+  return getRoomManager().deleteRoom(roomId);
+}
+
+export function joinRoom(roomId: string, socket: WebSocket, roomType?: string): Promise<RoomState> {
+  return getRoomManager().joinRoom(roomId, socket, roomType);
+}
+
+export function leaveRoom(roomId: string, socket: WebSocket): Promise<void> {
+  return getRoomManager().leaveRoom(roomId, socket);
+}
+
+export function hasRoom(roomId: string): boolean {
+  return getRoomManager().hasRoom(roomId);
+}
+
+export function getAllRoomIds(): string[] {
+  return getRoomManager().getAllRoomIds();
+}
+
+export function getRoomCount(): number {
+  return getRoomManager().getRoomCount();
+}
+
+export function cleanupEmptyRooms(): Promise<number> {
+  return getRoomManager().cleanupEmptyRooms();
+}
+
+export function getRoomStats(): RoomStats {
+  return getRoomManager().getRoomStats();
+}
+
+export function saveAllSnapshots(): Promise<void> {
+  return getRoomManager().saveAllSnapshots();
+}
+
+export function listSnapshotVersions(roomId: string): Promise<SnapshotVersionInfo[]> {
+  return getRoomManager().listSnapshotVersions(roomId);
+}
+
+export function restoreRoomSnapshot(roomId: string, version: number): Promise<'restored' | 'forwarded' | 'not-found'> {
+  return getRoomManager().restoreRoomSnapshot(roomId, version);
+}
+
+export function closeRoom(roomId: string): Promise<void> {
+  return getRoomManager().closeRoom(roomId);
+}
+
+export function sweepOrphanedRooms(): Promise<RoomSweepReport | null> {
+  return getRoomManager().sweepOrphanedRooms();
+}
+
+export function releaseAllOwnership(): Promise<void> {
+  return getRoomManager().releaseAllOwnership();
+}
+
+export function startInstanceHeartbeat(): void {
+  getRoomManager().startHeartbeat();
+}
+
+export function stopInstanceHeartbeat(): Promise<void> {
+  return getRoomManager().stopHeartbeat();
+}
+
+export function listInstances(): Promise<InstanceInfo[]> {
+  return getRoomManager().listInstances();
+}
+
+export function listRooms(filter?: RoomListFilter): Promise<RoomListPage> {
+  return getRoomManager().listRooms(filter);
+}
+
+export function getRoomInstances(roomId: string): Promise<InstanceInfo[]> {
+  return getRoomManager().getRoomInstances(roomId);
+}
+
+export function startRoomMaintenance(): void {
+  getRoomManager().startMaintenance();
+}
+
+export function stopRoomMaintenance(): void {
+  getRoomManager().stopMaintenance();
+}
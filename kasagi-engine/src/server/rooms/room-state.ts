@@ -1,11 +1,11 @@
 import type { WebSocket } from 'ws';
-import msgpack from 'msgpack-lite';
 import { logger } from '../../utils/logger.js';
 import { config } from '../config/env.js';
 import {
   computeEntityDelta,
   createDeltaPayload,
-  encodeDeltaToBase64,
+  encodeDelta,
+  decodeDeltaFromBase64,
   applyDeltaToEntities,
   shouldApplyRemoteDelta,
   isDeltaEmpty,
@@ -13,11 +13,33 @@ import {
   type EntityDelta,
 } from './delta-engine.js';
 import {
-  publishDelta,
-  saveRoomSnapshot,
-  loadRoomSnapshot,
-} from '../redis/redis-client.js';
-import type { KasagiSocket } from '../../shared/types.js';
+  createRoomCommand,
+  encodeRoomCommand,
+  type RoomCommand,
+  type RoomCommandBody,
+} from './room-commands.js';
+import {
+  getRoomHandler,
+  defaultRoomHandler,
+  type RoomContext,
+  type RoomHandler,
+} from './room-handlers.js';
+import { validateInput, type ValidationResult } from './input-schema.js';
+import { DEFAULT_ROOM_TYPE, ErrorCodes, WsCloseCodes } from '../../shared/constants.js';
+import {
+  CompactDictionary,
+  encodeCompactDelta,
+  type CompactDeltaFrame,
+  type CompactDictionarySize,
+  type CompactDictionaryState,
+} from '../../shared/compact-codec.js';
+import { InterestManager } from './interest.js';
+import { DeltaHistory, type DeltaHistoryEntry } from './delta-history.js';
+import { OutboundQueue, type OutboundDelta } from './outbound-queue.js';
+import { LwwState, type HlcStamp, type LwwSnapshot } from './lww.js';
+import type { Backplane } from '../backplane/backplane.js';
+import { encodeForSocket, OutgoingFrame } from '../websocket/wire-codec.js';
+import type { KasagiSocket, WsDeltaMessage, WsErrorMessage } from '../../shared/types.js';
 
 const roomLogger = logger.child({ module: 'room-state', instanceId: config.instanceId });
 
@@ -33,22 +55,82 @@ export interface RoomStateData {
 
 export interface PlayerInput {
   playerId: string;
+  entityId?: string;
   payload: EntityState;
   timestamp?: number;
 }
 
-export class RoomState {
+export interface RoomOptions {
+  /** Simulation rate in ticks per second (defaults to config.game.tickRate). */
+  tickRate?: number;
+  /** Registered room type whose handler drives this room (defaults to DEFAULT_ROOM_TYPE). */
+  roomType?: string;
+  /** Whether this instance already holds the room's lease (rooms otherwise start as followers). */
+  owner?: boolean;
+  /** Last-writer-wins registers restored from a snapshot ('lww' sync mode only). */
+  lww?: LwwSnapshot;
+}
+
+export class RoomState implements RoomContext {
   public readonly roomId: string;
+  public readonly roomType: string;
   public state: RoomStateData;
+  // Pub/sub, storage and leases shared with the other instances holding this room
+  private readonly backplane: Backplane;
   private previousState: RoomStateData;
   public clients: Set<WebSocket>;
   private lastSnapshotTick: number;
   private isApplyingRemoteDelta: boolean;
   private playerSockets: Map<string, Set<WebSocket>>;
   private playerDisconnectTimers: Map<string, NodeJS.Timeout>;
-
-  constructor(roomId: string, initialState?: RoomStateData) {
+  private readonly tickRate: number;
+  private tickTimer: NodeJS.Timeout | null;
+  private inputQueue: PlayerInput[];
+  // Set when state.entities was mutated outside of queued inputs (presence, removals)
+  private dirty: boolean;
+  private lastSnapshotSeq: number;
+  private snapshotInFlight: boolean;
+  private readonly handler: RoomHandler;
+  private lastTickAt: number;
+  // Server-granted ownership of entities other than a player's own (entityId -> playerIds)
+  private entityOwners: Map<string, Set<string>>;
+  // Compact encoding state; clients get quantized values, Redis gets exact ones
+  private readonly clientDictionary: CompactDictionary;
+  private clientDictionaryAnnounced: CompactDictionarySize;
+  private readonly redisDictionary: CompactDictionary;
+  private redisDictionaryAnnounced: CompactDictionarySize;
+  private compactPublishCount: number;
+  // Per-client visibility; null when the room type has no area of interest
+  private readonly interest: InterestManager | null;
+  // Dictionary size each compact client has seen (AOI rooms encode per client)
+  private compactAnnounced: Map<WebSocket, CompactDictionarySize>;
+  private readonly history: DeltaHistory;
+  // Last acknowledged seq per client (only clients that send acks are tracked)
+  private clientAcks: Map<WebSocket, { seq: number; ackedAt: number; syncedAt: number; awaitingAck: boolean }>;
+  // Remote deltas received ahead of a missing seq, keyed by seq
+  private pendingRemoteDeltas: Map<number, FullDelta>;
+  private gapTimer: NodeJS.Timeout | null;
+  private recoveringFromGap: boolean;
+  // Reloads in a row that did not reach the missing seq (sets the retry delay)
+  private gapRecoveryAttempts: number;
+  // Only the lease holder runs the simulation and mints seq; followers forward to it
+  private owner: boolean;
+  private leaseTimer: NodeJS.Timeout | null;
+  private leaseCheckInFlight: boolean;
+  // Players connected through follower instances (playerId -> instanceIds), owner only
+  private remotePlayers: Map<string, Set<string>>;
+  // Field registers for 'lww' rooms; null in 'owner' sync mode
+  private readonly lww: LwwState | null;
+  // Backplane traffic held back while the backplane is unreachable
+  private readonly outbound: OutboundQueue;
+  private flushingOutbound: boolean;
+  private outboundRetryAt: number;
+  // Tail of this room's delta publishes, which run one at a time in seq order
+  private publishChain: Promise<void>;
+
+  constructor(roomId: string, backplane: Backplane, initialState?: RoomStateData, options: RoomOptions = {}) {
     this.roomId = roomId;
+    this.backplane = backplane;
     this.state = initialState || {
       entities: {},
       tick: 0,
@@ -60,32 +142,112 @@ export class RoomState {
     this.isApplyingRemoteDelta = false;
     this.playerSockets = new Map();
     this.playerDisconnectTimers = new Map();
+    this.tickRate = options.tickRate ?? config.game.tickRate;
+    this.tickTimer = null;
+    this.inputQueue = [];
+    this.dirty = false;
+    this.lastSnapshotSeq = this.state.seq;
+    this.snapshotInFlight = false;
+    this.lastTickAt = Date.now();
+    this.entityOwners = new Map();
+
+    this.roomType = options.roomType ?? DEFAULT_ROOM_TYPE;
+    const handler = getRoomHandler(this.roomType);
+    if (!handler) {
+      roomLogger.warn({ roomId, roomType: this.roomType }, 'No handler registered for room type, using default');
+    }
+    this.handler = handler ?? defaultRoomHandler;
+
+    this.clientDictionary = new CompactDictionary(this.handler.encodingSchema);
+    this.clientDictionaryAnnounced = this.clientDictionary.size;
+    this.redisDictionary = new CompactDictionary({ fields: this.handler.encodingSchema?.fields });
+    this.redisDictionaryAnnounced = this.redisDictionary.size;
+    this.compactPublishCount = 0;
+    this.interest = this.handler.interest ? new InterestManager(this.handler.interest) : null;
+    this.compactAnnounced = new Map();
+    this.history = new DeltaHistory(config.game.deltaHistorySize);
+    this.clientAcks = new Map();
+    this.lww = this.handler.syncMode === 'lww' ? new LwwState(backplane.instanceId, options.lww) : null;
+    // In 'lww' rooms every instance writes, so there is no lease to hold
+    this.owner = this.lww !== null || (options.owner ?? false);
+    this.pendingRemoteDeltas = new Map();
+    this.gapTimer = null;
+    this.gapRecoveryAttempts = 0;
+    this.recoveringFromGap = false;
+    this.leaseTimer = null;
+    this.leaseCheckInFlight = false;
+    this.remotePlayers = new Map();
+    this.outbound = new OutboundQueue(config.game.outboundQueueSize);
+    this.flushingOutbound = false;
+    this.outboundRetryAt = 0;
+    this.publishChain = Promise.resolve();
+
+    roomLogger.info(
+      {
+        roomId,
+        roomType: this.roomType,
+        tick: this.state.tick,
+        seq: this.state.seq,
+        tickRate: this.tickRate,
+        owner: this.owner,
+        syncMode: this.lww ? 'lww' : 'owner',
+      },
+      'RoomState initialized'
+    );
 
-    roomLogger.info({ roomId, tick: this.state.tick, seq: this.state.seq }, 'RoomState initialized');
+    this.invokeHandler('onCreate', () => this.handler.onCreate?.(this));
   }
 
   /**
-   * Create a RoomState from a Redis snapshot.
+   * Create a RoomState from the backplane's snapshot, replaying any newer
+   * deltas from the room's log on top of it.
    */
-  static async loadSnapshot(roomId: string): Promise<RoomState | null> {
+  static async loadSnapshot(
+    roomId: string,
+    backplane: Backplane,
+    options: RoomOptions = {}
+  ): Promise<RoomState | null> {
     try {
-      const snapshot = await loadRoomSnapshot(roomId);
-      
-      if (!snapshot) {
+      const snapshot = await backplane.loadSnapshot(roomId);
+
+      let stateData: RoomStateData = { entities: {}, tick: 0, seq: 0 };
+      let roomType = options.roomType;
+      let lwwSnapshot: LwwSnapshot | undefined;
+
+      if (snapshot) {
+        const parsed: { entities: Record<string, EntityState>; roomType?: string; lww?: LwwSnapshot } =
+          JSON.parse(snapshot.data);
+        stateData = {
+          entities: parsed.entities ?? {},
+          tick: snapshot.tick,
+          seq: snapshot.seq,
+        };
+        lwwSnapshot = parsed.lww;
+
+        // The stored room type wins so a room keeps its logic across restarts
+        roomType = parsed.roomType ?? options.roomType;
+      }
+
+      let replayed: number;
+      if (getRoomHandler(roomType ?? DEFAULT_ROOM_TYPE)?.syncMode === 'lww') {
+        const lww = new LwwState(backplane.instanceId, lwwSnapshot);
+        replayed = await RoomState.mergeStream(roomId, backplane, stateData, lww);
+        lwwSnapshot = lww.export();
+      } else {
+        replayed = await RoomState.replayStream(roomId, backplane, stateData);
+      }
+
+      if (!snapshot && replayed === 0) {
         roomLogger.debug({ roomId }, 'No snapshot found, creating fresh room');
         return null;
       }
 
-      const stateData: RoomStateData = JSON.parse(snapshot.data);
-      stateData.tick = snapshot.tick;
-      stateData.seq = snapshot.seq;
-
       roomLogger.info(
-        { roomId, tick: stateData.tick, seq: stateData.seq },
+        { roomId, roomType, tick: stateData.tick, seq: stateData.seq, fromSnapshot: !!snapshot, replayed },
         'Room restored from snapshot'
       );
 
-      return new RoomState(roomId, stateData);
+      return new RoomState(roomId, backplane, stateData, { ...options, roomType, lww: lwwSnapshot });
     } catch (err) {
       roomLogger.error({ error: (err as Error).message, roomId }, 'Failed to load snapshot');
       return null;
@@ -93,37 +255,305 @@ export class RoomState {
   }
 
   /**
-   * Save current state as a snapshot to Redis.
+   * Apply stream deltas newer than stateData.seq in place.
+   * Stops at the first seq gap; returns the number of deltas applied.
+   */
+  private static async replayStream(roomId: string, backplane: Backplane, stateData: RoomStateData): Promise<number> {
+    if (!config.stream.enabled) {
+      return 0;
+    }
+
+    const entries = await backplane.readLog(roomId, stateData.seq);
+    let applied = 0;
+
+    for (const entry of entries) {
+      if (entry.seq <= stateData.seq) continue;
+      if (entry.seq !== stateData.seq + 1) {
+        roomLogger.warn(
+          { roomId, expectedSeq: stateData.seq + 1, streamSeq: entry.seq },
+          'Gap in room stream, stopping replay'
+        );
+        break;
+      }
+
+      const delta = decodeDeltaFromBase64(entry.data);
+      applyDeltaToEntities(stateData.entities as Record<string, Record<string, unknown>>, delta.delta);
+      stateData.seq = delta.seq;
+      stateData.tick = Math.max(stateData.tick, delta.tick);
+      applied++;
+    }
+
+    return applied;
+  }
+
+  /**
+   * Merge every stream entry into stateData ('lww' rooms). Stream entries
+   * come from many writers, each with its own seq, but merging is
+   * idempotent and order-independent so the whole stream can be applied.
+   */
+  private static async mergeStream(
+    roomId: string,
+    backplane: Backplane,
+    stateData: RoomStateData,
+    lww: LwwState
+  ): Promise<number> {
+    if (!config.stream.enabled) {
+      return 0;
+    }
+
+    const entries = await backplane.readLog(roomId, 0);
+    let merged = 0;
+
+    for (const entry of entries) {
+      const delta = decodeDeltaFromBase64(entry.data);
+      if (!delta.clock) continue;
+
+      lww.merge(delta.delta, delta.clock, stateData.entities as Record<string, Record<string, unknown>>);
+      stateData.tick = Math.max(stateData.tick, delta.tick);
+      merged++;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Save current state as a snapshot on the backplane.
+   * The write only succeeds if the stored snapshot is older; a rejection
+   * means another instance saved newer state, and the room reconciles with it.
+   * While the backplane is unreachable the save waits in the outbound queue.
    */
   async saveSnapshot(): Promise<void> {
+    // Followers may lag the owner; only the owner's state is authoritative
+    if (!this.owner) {
+      roomLogger.debug({ roomId: this.roomId }, 'Skipping snapshot, not the room owner');
+      return;
+    }
+
+    if (!this.flushingOutbound && (this.outbound.hasPending() || !this.backplane.isConnected())) {
+      this.outbound.snapshotPending = true;
+      return;
+    }
+
     try {
-      const data = JSON.stringify({
-        entities: this.state.entities,
-      });
+      await this.writeSnapshot();
+    } catch (err) {
+      roomLogger.error({ error: (err as Error).message, roomId: this.roomId }, 'Failed to save snapshot');
+      this.outbound.snapshotPending = true;
+    }
+  }
 
-      await saveRoomSnapshot(this.roomId, data, this.state.seq, this.state.tick);
-      this.lastSnapshotTick = this.state.tick;
+  /**
+   * Write the snapshot; throws if the backplane write fails.
+   */
+  private async writeSnapshot(): Promise<void> {
+    const data = JSON.stringify({
+      entities: this.state.entities,
+      roomType: this.roomType,
+      lww: this.lww?.export(),
+    });
+
+    const { seq, tick } = this.state;
+
+    // 'lww' seqs are per instance, so they cannot order snapshots; stale
+    // 'lww' snapshots are repaired by merging the stream on load instead
+    const result = await this.backplane.saveSnapshot(this.roomId, data, seq, tick, this.lww === null);
+    this.lastSnapshotTick = tick;
+    this.lastSnapshotSeq = seq;
+
+    if (!result.saved) {
+      if (result.storedSeq === seq) {
+        roomLogger.debug({ roomId: this.roomId, seq }, 'Snapshot already stored');
+        return;
+      }
 
-      roomLogger.info(
-        { roomId: this.roomId, tick: this.state.tick, seq: this.state.seq },
-        'Snapshot saved'
+      roomLogger.warn(
+        { roomId: this.roomId, seq, storedSeq: result.storedSeq },
+        'Snapshot rejected, a newer snapshot is stored'
       );
+      await this.reconcileWithStoredSnapshot();
+      return;
+    }
+
+    roomLogger.info(
+      { roomId: this.roomId, tick, seq, version: result.version },
+      'Snapshot saved'
+    );
+  }
+
+  /**
+   * Catch up after a snapshot write was rejected: our view of the room is
+   * behind, so another instance has been writing it. Reload the newer state
+   * and let the lease check settle who owns the room.
+   */
+  private async reconcileWithStoredSnapshot(): Promise<void> {
+    try {
+      if (await this.reloadFromBackplane()) {
+        this.pushSnapshotToClients();
+        roomLogger.warn({ roomId: this.roomId, seq: this.state.seq }, 'Reloaded newer stored snapshot');
+      }
     } catch (err) {
-      roomLogger.error({ error: (err as Error).message, roomId: this.roomId }, 'Failed to save snapshot');
+      roomLogger.error({ error: (err as Error).message, roomId: this.roomId }, 'Failed to reconcile with stored snapshot');
+    }
+
+    if (this.leaseTimer) {
+      await this.checkLease();
     }
   }
 
   /**
    * Check if we should save a snapshot and do so if needed.
+   * Rooms that produced no deltas since the last snapshot are skipped.
    */
   private async maybeSnapshot(): Promise<void> {
     const ticksSinceSnapshot = this.state.tick - this.lastSnapshotTick;
     
-    if (ticksSinceSnapshot >= config.snapshotInterval) {
-      await this.saveSnapshot();
+    if (
+      ticksSinceSnapshot >= config.snapshotInterval &&
+      this.state.seq !== this.lastSnapshotSeq &&
+      !this.snapshotInFlight
+    ) {
+      this.snapshotInFlight = true;
+      try {
+        await this.saveSnapshot();
+      } finally {
+        this.snapshotInFlight = false;
+      }
     }
   }
 
+  // ==========================================================================
+  // Tick Loop
+  // ==========================================================================
+
+  /**
+   * Start the fixed-rate simulation loop for this room.
+   */
+  public start(): void {
+    if (this.tickTimer) return;
+
+    this.lastTickAt = Date.now();
+    this.tickTimer = setInterval(() => this.runTick(), 1000 / this.tickRate);
+    if (!this.lww) {
+      this.leaseTimer = setInterval(() => void this.checkLease(), config.ownership.renewIntervalMs);
+    }
+
+    roomLogger.debug({ roomId: this.roomId, tickRate: this.tickRate }, 'Tick loop started');
+  }
+
+  /**
+   * Stop the simulation loop, flushing any queued inputs as a final tick.
+   */
+  public stop(): void {
+    if (!this.tickTimer) return;
+
+    clearInterval(this.tickTimer);
+    this.tickTimer = null;
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+
+    if (this.inputQueue.length > 0 || this.dirty) {
+      this.runTick();
+    }
+
+    roomLogger.debug({ roomId: this.roomId, tick: this.state.tick }, 'Tick loop stopped');
+  }
+
+  /**
+   * Whether the simulation loop is running.
+   */
+  public isRunning(): boolean {
+    return this.tickTimer !== null;
+  }
+
+  /**
+   * Advance the simulation by one tick.
+   * Applies all queued inputs, runs the handler's onTick, then emits at most
+   * one combined delta. Followers only check on lagging clients.
+   */
+  private runTick(): void {
+    const now = Date.now();
+
+    if (!this.owner) {
+      this.resyncLaggingClients(now);
+      return;
+    }
+
+    const deltaMs = now - this.lastTickAt;
+    this.lastTickAt = now;
+    this.state.tick++;
+
+    if (this.inputQueue.length > 0) {
+      const inputs = this.inputQueue;
+      this.inputQueue = [];
+
+      for (const input of inputs) {
+        this.invokeHandler('onInput', () => this.handler.onInput(this, input));
+      }
+      this.dirty = true;
+    }
+
+    if (this.handler.onTick) {
+      this.invokeHandler('onTick', () => this.handler.onTick?.(this, { tick: this.state.tick, deltaMs, now }));
+      this.dirty = true;
+    }
+
+    if (this.dirty) {
+      this.flushDelta();
+    }
+
+    this.resyncLaggingClients(now);
+    void this.maybeSnapshot();
+
+    // Reconnects trigger a flush; this retries flushes that failed
+    if (this.outbound.hasPending() && now >= this.outboundRetryAt) {
+      void this.flushOutbound();
+    }
+  }
+
+  /**
+   * Diff the state against the last emitted state and broadcast/publish the result.
+   */
+  private flushDelta(): void {
+    this.dirty = false;
+
+    const delta = computeEntityDelta(
+      this.previousState.entities as Record<string, Record<string, unknown>>,
+      this.state.entities as Record<string, Record<string, unknown>>
+    );
+
+    if (isDeltaEmpty(delta)) {
+      return;
+    }
+
+    this.state.seq++;
+    this.previousState = this.cloneState();
+    this.recordHistory(delta);
+
+    roomLogger.debug({ roomId: this.roomId, delta, seq: this.state.seq, tick: this.state.tick }, 'Delta computed');
+
+    if (this.lww) {
+      this.broadcastDelta(delta);
+      // Stamp now, before later ticks change the fields being published
+      const stamped = this.lww.stampLocal(delta, this.state.entities as Record<string, Record<string, unknown>>);
+      this.queuePublish(this.createFullDelta(stamped.delta, stamped.clock));
+    } else {
+      // Standard MessagePack clients and the backplane share one encoding of the delta
+      const fullDelta = this.createFullDelta(delta);
+      const frame = encodeDelta(fullDelta);
+      this.broadcastDelta(delta, new OutgoingFrame(() => fullDelta, frame));
+      this.queuePublish(fullDelta, frame);
+    }
+  }
+
+  /**
+   * Wrap a delta at the current tick and seq for publishing.
+   */
+  private createFullDelta(delta: EntityDelta, clock?: HlcStamp): FullDelta {
+    return createDeltaPayload(this.roomId, delta, this.state.tick, this.state.seq, this.backplane.instanceId, clock);
+  }
+
   /**
    * Add a client to this room.
    */
@@ -133,15 +563,9 @@ export class RoomState {
     const kasagiSocket = socket as KasagiSocket;
     const playerId = kasagiSocket.playerId;
     if (playerId) {
-      // Cancel any pending removal timer for this player
-      const pending = this.playerDisconnectTimers.get(playerId);
-      if (pending) {
-        clearTimeout(pending);
-        this.playerDisconnectTimers.delete(playerId);
-      }
-
       // Track active sockets per playerId
       const set = this.playerSockets.get(playerId) ?? new Set<WebSocket>();
+      const isNewPlayer = set.size === 0;
       set.add(socket);
       this.playerSockets.set(playerId, set);
 
@@ -152,15 +576,18 @@ export class RoomState {
           set.delete(other);
           this.clients.delete(other);
           try {
-            other.close(4001, 'Replaced by new connection');
+            other.close(WsCloseCodes.REPLACED, 'Replaced by new connection');
           } catch {
             // ignore
           }
         }
       }
 
-      // Mark player as connected in entity state (presence metadata)
-      this.applyPresencePatch(playerId, { connected: true, lastSeen: Date.now(), disconnectedAt: null });
+      if (this.owner) {
+        this.markPlayerConnected(playerId, isNewPlayer && !this.remotePlayers.has(playerId));
+      } else if (isNewPlayer) {
+        void this.forwardCommand({ type: 'join', playerId });
+      }
     }
 
     roomLogger.info(
@@ -174,6 +601,9 @@ export class RoomState {
    */
   public removeClient(socket: WebSocket): void {
     this.clients.delete(socket);
+    this.interest?.forget(socket);
+    this.compactAnnounced.delete(socket);
+    this.clientAcks.delete(socket);
 
     const kasagiSocket = socket as KasagiSocket;
     const playerId = kasagiSocket.playerId;
@@ -184,27 +614,12 @@ export class RoomState {
         if (set.size === 0) {
           this.playerSockets.delete(playerId);
 
-          // Mark player as disconnected (but keep entity for reconnection window)
-          this.applyPresencePatch(playerId, { connected: false, lastSeen: Date.now(), disconnectedAt: Date.now() });
-
-          // Schedule entity removal after grace period (if they don't reconnect)
-          if (!this.playerDisconnectTimers.has(playerId)) {
-            const graceMs = config.game.playerDisconnectGraceMs;
-            const timer = setTimeout(() => {
-              // If player still has no active sockets, remove their entity
-              const stillConnected = this.playerSockets.get(playerId)?.size;
-              if (!stillConnected && this.state.entities[playerId]) {
-                const delta = this.removeEntity(playerId);
-                if (!isDeltaEmpty(delta)) {
-                  this.broadcastDelta(delta);
-                  // Fire-and-forget; internal error handling already logs
-                  void this.publishDeltaToRedis(delta);
-                }
-              }
-              this.playerDisconnectTimers.delete(playerId);
-            }, graceMs);
-
-            this.playerDisconnectTimers.set(playerId, timer);
+          if (this.owner) {
+            if (!this.remotePlayers.has(playerId)) {
+              this.markPlayerDisconnected(playerId);
+            }
+          } else {
+            void this.forwardCommand({ type: 'leave', playerId });
           }
         }
       }
@@ -216,42 +631,117 @@ export class RoomState {
     );
   }
 
+  /**
+   * Remove every local client because the room was closed for good. Each
+   * client is told it left; its socket stays open to join another room.
+   */
+  public evictClients(): void {
+    const message = new OutgoingFrame(() => ({ type: 'left', roomId: this.roomId, reason: 'closed' }));
+
+    for (const client of this.clients) {
+      if (client.readyState === 1) {
+        this.sendToClient(client, message.encodeFor(client));
+      }
+      this.interest?.forget(client);
+
+      const kasagiSocket = client as KasagiSocket;
+      kasagiSocket.roomId = null;
+      kasagiSocket.playerId = null;
+    }
+
+    roomLogger.info({ roomId: this.roomId, clientCount: this.clients.size }, 'Evicted clients from closed room');
+
+    this.clients.clear();
+    this.compactAnnounced.clear();
+    this.clientAcks.clear();
+    this.playerSockets.clear();
+  }
+
   /**
    * Cleanup timers when room is destroyed.
    */
   public shutdown(): void {
+    this.stop();
+    this.invokeHandler('onDispose', () => this.handler.onDispose?.(this));
+
     for (const timer of this.playerDisconnectTimers.values()) {
       clearTimeout(timer);
     }
     this.playerDisconnectTimers.clear();
     this.playerSockets.clear();
+    this.remotePlayers.clear();
+    this.entityOwners.clear();
+
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+    this.pendingRemoteDeltas.clear();
+    this.gapRecoveryAttempts = 0;
+  }
+
+  /**
+   * Mark a player present (owner only), cancelling any pending removal.
+   * onJoin runs only when the player was not already in the room.
+   */
+  private markPlayerConnected(playerId: string, isNewPlayer: boolean): void {
+    const pending = this.playerDisconnectTimers.get(playerId);
+    if (pending) {
+      clearTimeout(pending);
+      this.playerDisconnectTimers.delete(playerId);
+    }
+
+    // Mark player as connected in entity state (presence metadata)
+    this.applyPresencePatch(playerId, { connected: true, lastSeen: Date.now(), disconnectedAt: null });
+
+    if (isNewPlayer) {
+      this.invokeHandler('onJoin', () => this.handler.onJoin?.(this, playerId));
+    }
+  }
+
+  /**
+   * Mark a player gone from every instance (owner only) and schedule removal
+   * of their entity after the reconnect grace period.
+   */
+  private markPlayerDisconnected(playerId: string): void {
+    // Mark player as disconnected (but keep entity for reconnection window)
+    this.applyPresencePatch(playerId, { connected: false, lastSeen: Date.now(), disconnectedAt: Date.now() });
+    this.invokeHandler('onLeave', () => this.handler.onLeave?.(this, playerId));
+
+    // Schedule entity removal after grace period (if they don't reconnect)
+    if (!this.playerDisconnectTimers.has(playerId)) {
+      const graceMs = config.game.playerDisconnectGraceMs;
+      const timer = setTimeout(() => {
+        // If player is still not connected anywhere, remove their entity
+        if (!this.isPlayerPresent(playerId)) {
+          // Removal goes out with the next tick's delta
+          this.removeEntity(playerId);
+          this.revokeAllFor(playerId);
+        }
+        this.playerDisconnectTimers.delete(playerId);
+      }, graceMs);
+
+      this.playerDisconnectTimers.set(playerId, timer);
+    }
+  }
+
+  private isPlayerPresent(playerId: string): boolean {
+    return (this.playerSockets.get(playerId)?.size ?? 0) > 0 || this.remotePlayers.has(playerId);
   }
 
   /**
    * Apply a small metadata patch to a player's entity (presence).
-   * Uses the same delta pipeline: update state -> compute delta -> broadcast + publish.
+   * The change is picked up by the next tick's delta.
    */
   private applyPresencePatch(playerId: string, patch: Record<string, unknown>): void {
     // Don't mutate state while applying remote delta
     if (this.isApplyingRemoteDelta) return;
 
-    this.previousState = this.cloneState();
     this.state.entities[playerId] = {
       ...(this.state.entities[playerId] ?? {}),
       ...patch,
     };
-    this.state.tick++;
-    this.state.seq++;
-
-    const delta = computeEntityDelta(
-      this.previousState.entities as Record<string, Record<string, unknown>>,
-      this.state.entities as Record<string, Record<string, unknown>>
-    );
-
-    if (!isDeltaEmpty(delta)) {
-      this.broadcastDelta(delta);
-      void this.publishDeltaToRedis(delta);
-    }
+    this.dirty = true;
   }
 
   /**
@@ -262,178 +752,1179 @@ export class RoomState {
   }
 
   /**
-   * Apply player input to the room state.
+   * Get the number of distinct players connected to this instance.
    */
-  public applyInput(input: PlayerInput, _socket?: WebSocket): EntityDelta {
-    const { playerId, payload } = input;
-    console.log('🔵 APPLYING INPUT:', { roomId: this.roomId, playerId, payload }); // ADD THIS
-
-    roomLogger.debug({ roomId: this.roomId, playerId }, 'Applying player input');
-
-    // Store previous state for delta computation
-    this.previousState = this.cloneState();
-
-    // Mutate the entity state
-    this.state.entities[playerId] = {
-      ...this.state.entities[playerId],
-      ...payload,
-      lastUpdate: Date.now(),
-    };
-
-    // Increment tick and sequence
-    this.state.tick++;
-    this.state.seq++;
+  public getPlayerCount(): number {
+    return this.playerSockets.size;
+  }
 
-    // Compute delta
-    const delta = computeEntityDelta(
-      this.previousState.entities as Record<string, Record<string, unknown>>,
-      this.state.entities as Record<string, Record<string, unknown>>
-    );
+  /**
+   * Validate an input payload against this room type's schema.
+   * Server-managed presence fields are always rejected.
+   */
+  public validateInput(payload: unknown): ValidationResult {
+    return validateInput(payload, this.handler.inputSchema);
+  }
 
-    roomLogger.debug({ roomId: this.roomId, delta, seq: this.state.seq }, 'Delta computed');
+  // ==========================================================================
+  // Entity Ownership
+  // ==========================================================================
 
-    // Broadcast and publish
-    if (!isDeltaEmpty(delta)) {
-      this.broadcastDelta(delta);
-      this.publishDeltaToRedis(delta);
+  /**
+   * Check if a player may mutate an entity.
+   * Players always own the entity keyed by their playerId; anything else
+   * needs an explicit grant.
+   */
+  public canMutate(playerId: string, entityId: string): boolean {
+    if (entityId === playerId) {
+      return true;
     }
+    return this.entityOwners.get(entityId)?.has(playerId) ?? false;
+  }
 
-    // Maybe save snapshot
-    this.maybeSnapshot();
+  /**
+   * Grant a player ownership of a shared entity.
+   */
+  public grantOwnership(entityId: string, playerId: string): void {
+    const owners = this.entityOwners.get(entityId) ?? new Set<string>();
+    owners.add(playerId);
+    this.entityOwners.set(entityId, owners);
 
-    return delta;
+    roomLogger.debug({ roomId: this.roomId, entityId, playerId }, 'Entity ownership granted');
   }
 
   /**
-   * Apply a remote delta from another server instance.
-   * Does NOT re-emit to Redis, only broadcasts to local clients.
+   * Revoke a player's ownership of an entity, or every grant for the entity
+   * when no playerId is given.
    */
-  public applyRemoteDelta(remoteDelta: FullDelta): boolean {
-    // Check if we should apply this delta
-    if (!shouldApplyRemoteDelta(remoteDelta, this.state.seq)) {
-      return false;
+  public revokeOwnership(entityId: string, playerId?: string): void {
+    if (playerId === undefined) {
+      this.entityOwners.delete(entityId);
+      return;
     }
 
-    roomLogger.info(
-      { 
-        roomId: this.roomId, 
-        remoteSeq: remoteDelta.seq, 
-        localSeq: this.state.seq,
-        fromInstance: remoteDelta.instanceId 
-      },
-      'Applying remote delta'
-    );
-
-    // Mark that we're applying a remote delta (prevents re-publishing)
-    this.isApplyingRemoteDelta = true;
-
-    try {
-      // Apply the delta to our entities
-      applyDeltaToEntities(
-        this.state.entities as Record<string, Record<string, unknown>>,
-        remoteDelta.delta
-      );
-
-      // Update our state counters
-      this.state.seq = remoteDelta.seq;
-      this.state.tick = Math.max(this.state.tick, remoteDelta.tick);
+    const owners = this.entityOwners.get(entityId);
+    if (owners) {
+      owners.delete(playerId);
+      if (owners.size === 0) {
+        this.entityOwners.delete(entityId);
+      }
+    }
+  }
 
-      // Broadcast to local WebSocket clients only
-      this.broadcastDelta(remoteDelta.delta);
+  /**
+   * Get the players granted ownership of an entity.
+   */
+  public getGrantedOwners(entityId: string): string[] {
+    return Array.from(this.entityOwners.get(entityId) ?? []);
+  }
 
-      return true;
-    } finally {
-      this.isApplyingRemoteDelta = false;
+  /**
+   * Drop every grant held by a player.
+   */
+  private revokeAllFor(playerId: string): void {
+    for (const entityId of Array.from(this.entityOwners.keys())) {
+      this.revokeOwnership(entityId, playerId);
     }
   }
 
   /**
-   * Publish delta to Redis for cross-instance sync.
+   * Queue player input for the next tick.
+   * Callers must validate the payload first (see validateInput).
    */
-  private async publishDeltaToRedis(delta: EntityDelta): Promise<void> {
-    // Don't re-publish if we're applying a remote delta
-    if (this.isApplyingRemoteDelta) {
+  public applyInput(input: PlayerInput, _socket?: WebSocket): void {
+    const queued = { ...input, timestamp: input.timestamp ?? Date.now() };
+
+    if (!this.owner) {
+      roomLogger.debug({ roomId: this.roomId, playerId: input.playerId }, 'Forwarding player input to owner');
+      void this.forwardCommand({ type: 'input', input: queued });
       return;
     }
 
+    roomLogger.debug({ roomId: this.roomId, playerId: input.playerId }, 'Queueing player input');
+    this.inputQueue.push(queued);
+  }
+
+  /**
+   * Get the number of inputs waiting for the next tick.
+   */
+  public getQueuedInputCount(): number {
+    return this.inputQueue.length;
+  }
+
+  /**
+   * Run a handler hook, isolating the room from handler exceptions.
+   */
+  private invokeHandler(hook: keyof RoomHandler, fn: () => void): void {
     try {
-      const fullDelta = createDeltaPayload(
-        this.roomId,
-        delta,
-        this.state.tick,
-        this.state.seq
-      );
-      
-      const encoded = encodeDeltaToBase64(fullDelta);
-      await publishDelta(this.roomId, encoded);
-      roomLogger.info({ roomId: this.roomId, seq: this.state.seq, tick: this.state.tick }, 'Delta published to Redis');
+      fn();
     } catch (err) {
       roomLogger.error(
-        { error: (err as Error).message, roomId: this.roomId },
-        'Failed to publish delta to Redis'
+        { error: (err as Error).message, roomId: this.roomId, roomType: this.roomType, hook },
+        'Room handler threw'
       );
     }
   }
 
   /**
-   * Broadcast a delta to all connected clients in this room.
+   * Apply a remote delta from another server instance.
+   * Does NOT re-publish to the backplane, only broadcasts to local clients.
+   *
+   * Deltas that skip a seq are buffered until the gap fills; if it does not
+   * fill within config.game.remoteGapTimeoutMs the room reloads from the
+   * backplane, retrying until the snapshot or log covers the missing seq.
+   * Returns true only if this delta was applied immediately.
    */
-  public broadcastDelta(delta: EntityDelta): void {
-    if (isDeltaEmpty(delta)) {
-      return;
+  public applyRemoteDelta(remoteDelta: FullDelta, frame?: Buffer): boolean {
+    if (this.lww) {
+      return this.mergeRemoteDelta(remoteDelta, this.lww);
     }
 
-    const message = {
+    // Check if we should apply this delta
+    if (!shouldApplyRemoteDelta(remoteDelta, this.state.seq, this.backplane.instanceId)) {
+      return false;
+    }
+
+    if (remoteDelta.seq !== this.state.seq + 1 || this.recoveringFromGap) {
+      this.bufferRemoteDelta(remoteDelta);
+      return false;
+    }
+
+    this.applyContiguousRemoteDelta(remoteDelta, frame);
+    this.drainPendingRemoteDeltas();
+    return true;
+  }
+
+  /**
+   * Merge a remote delta into an 'lww' room. Remote seqs are ignored: the
+   * changes that win are re-sequenced locally for this instance's clients.
+   */
+  private mergeRemoteDelta(remoteDelta: FullDelta, lww: LwwState): boolean {
+    if (remoteDelta.instanceId === this.backplane.instanceId) {
+      return false;
+    }
+    if (!remoteDelta.clock) {
+      roomLogger.warn(
+        { roomId: this.roomId, fromInstance: remoteDelta.instanceId },
+        'Ignoring remote delta without a clock in lww room'
+      );
+      return false;
+    }
+
+    this.isApplyingRemoteDelta = true;
+
+    try {
+      const applied = lww.merge(
+        remoteDelta.delta,
+        remoteDelta.clock,
+        this.state.entities as Record<string, Record<string, unknown>>
+      );
+      if (isDeltaEmpty(applied)) {
+        return false;
+      }
+
+      applyDeltaToEntities(this.previousState.entities as Record<string, Record<string, unknown>>, applied);
+
+      this.state.seq++;
+      this.state.tick = Math.max(this.state.tick, remoteDelta.tick);
+      this.recordHistory(applied);
+      this.broadcastDelta(applied);
+
+      roomLogger.debug(
+        { roomId: this.roomId, seq: this.state.seq, clock: remoteDelta.clock, fromInstance: remoteDelta.instanceId },
+        'Merged remote delta'
+      );
+      return true;
+    } finally {
+      this.isApplyingRemoteDelta = false;
+    }
+  }
+
+  /**
+   * Get the number of out-of-order remote deltas waiting for a gap to fill.
+   */
+  public getPendingRemoteDeltaCount(): number {
+    return this.pendingRemoteDeltas.size;
+  }
+
+  /**
+   * `frame` is the delta's standard encoding as received, which local
+   * standard MessagePack clients can be sent unchanged.
+   */
+  private applyContiguousRemoteDelta(remoteDelta: FullDelta, frame?: Buffer): void {
+    roomLogger.info(
+      { 
+        roomId: this.roomId, 
+        remoteSeq: remoteDelta.seq, 
+        localSeq: this.state.seq,
+        fromInstance: remoteDelta.instanceId 
+      },
+      'Applying remote delta'
+    );
+
+    // Mark that we're applying a remote delta (prevents re-publishing)
+    this.isApplyingRemoteDelta = true;
+
+    try {
+      // Apply the delta to our entities, and to the last emitted state so the
+      // next local tick doesn't re-emit the remote changes as our own
+      applyDeltaToEntities(
+        this.state.entities as Record<string, Record<string, unknown>>,
+        remoteDelta.delta
+      );
+      applyDeltaToEntities(
+        this.previousState.entities as Record<string, Record<string, unknown>>,
+        remoteDelta.delta
+      );
+
+      // Update our state counters
+      this.state.seq = remoteDelta.seq;
+      this.state.tick = Math.max(this.state.tick, remoteDelta.tick);
+      this.recordHistory(remoteDelta.delta);
+
+      // Broadcast to local WebSocket clients only
+      this.broadcastDelta(remoteDelta.delta, frame && new OutgoingFrame(() => remoteDelta, frame));
+    } finally {
+      this.isApplyingRemoteDelta = false;
+    }
+  }
+
+  /**
+   * Hold a delta that arrived ahead of a missing seq.
+   */
+  private bufferRemoteDelta(remoteDelta: FullDelta): void {
+    this.pendingRemoteDeltas.set(remoteDelta.seq, remoteDelta);
+
+    roomLogger.warn(
+      {
+        roomId: this.roomId,
+        remoteSeq: remoteDelta.seq,
+        localSeq: this.state.seq,
+        buffered: this.pendingRemoteDeltas.size,
+        fromInstance: remoteDelta.instanceId,
+      },
+      'Remote delta seq gap, buffering'
+    );
+
+    if (this.recoveringFromGap) return;
+
+    // Once a reload has come up short, wait for its retry instead
+    if (this.gapRecoveryAttempts === 0 && this.pendingRemoteDeltas.size >= config.game.remoteGapMaxBuffered) {
+      void this.recoverFromGap();
+    } else {
+      this.scheduleGapRecovery();
+    }
+  }
+
+  /**
+   * Apply buffered deltas that now follow on from the local seq.
+   */
+  private drainPendingRemoteDeltas(): void {
+    for (const seq of Array.from(this.pendingRemoteDeltas.keys())) {
+      if (seq <= this.state.seq) this.pendingRemoteDeltas.delete(seq);
+    }
+
+    let next = this.pendingRemoteDeltas.get(this.state.seq + 1);
+    while (next) {
+      this.pendingRemoteDeltas.delete(next.seq);
+      this.applyContiguousRemoteDelta(next);
+      next = this.pendingRemoteDeltas.get(this.state.seq + 1);
+    }
+
+    if (this.pendingRemoteDeltas.size === 0) {
+      this.gapRecoveryAttempts = 0;
+      if (this.gapTimer) {
+        clearTimeout(this.gapTimer);
+        this.gapTimer = null;
+      }
+    }
+  }
+
+  /**
+   * Reload the room from its backplane snapshot (plus log), apply whatever
+   * buffered deltas follow it, and send every local client a fresh snapshot.
+   * Local changes not yet flushed as a delta are discarded. A gap the
+   * backplane cannot fill yet is never skipped: the later deltas stay
+   * buffered and the reload is retried with backoff.
+   */
+  private async recoverFromGap(): Promise<void> {
+    if (this.recoveringFromGap) return;
+    this.recoveringFromGap = true;
+
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+
+    const fromSeq = this.state.seq;
+
+    try {
+      await this.reloadFromBackplane();
+    } catch (err) {
+      roomLogger.error({ error: (err as Error).message, roomId: this.roomId }, 'Failed to load state for gap recovery');
+    } finally {
+      this.recoveringFromGap = false;
+    }
+
+    this.drainPendingRemoteDeltas();
+
+    if (this.state.seq !== fromSeq) {
+      roomLogger.warn(
+        { roomId: this.roomId, fromSeq, seq: this.state.seq, stillBuffered: this.pendingRemoteDeltas.size },
+        'Recovered from remote delta gap'
+      );
+      this.pushSnapshotToClients();
+    }
+
+    if (this.pendingRemoteDeltas.size === 0) {
+      return;
+    }
+
+    // Neither the snapshot nor the log reaches the missing seq yet; wait for
+    // the owner to save past it
+    this.gapRecoveryAttempts++;
+    roomLogger.warn(
+      {
+        roomId: this.roomId,
+        seq: this.state.seq,
+        nextBufferedSeq: Math.min(...this.pendingRemoteDeltas.keys()),
+        attempts: this.gapRecoveryAttempts,
+      },
+      'Remote delta gap not recoverable yet, retrying'
+    );
+    this.scheduleGapRecovery();
+  }
+
+  /**
+   * Replace local state with the backplane's snapshot plus log when they are
+   * ahead of it. Returns true if the state was replaced.
+   */
+  private async reloadFromBackplane(): Promise<boolean> {
+    const snapshot = await this.backplane.loadSnapshot(this.roomId);
+    const recovered: RoomStateData = snapshot
+      ? { entities: JSON.parse(snapshot.data).entities ?? {}, tick: snapshot.tick, seq: snapshot.seq }
+      : { entities: {}, tick: 0, seq: 0 };
+    await RoomState.replayStream(this.roomId, this.backplane, recovered);
+
+    if (recovered.seq <= this.state.seq) {
+      return false;
+    }
+
+    this.state = {
+      entities: recovered.entities,
+      tick: Math.max(this.state.tick, recovered.tick),
+      seq: recovered.seq,
+    };
+    this.previousState = this.cloneState();
+    this.dirty = false;
+    this.history.clear();
+    return true;
+  }
+
+  private scheduleGapRecovery(): void {
+    if (this.gapTimer) return;
+
+    const delay = Math.min(
+      config.game.remoteGapTimeoutMs * 2 ** this.gapRecoveryAttempts,
+      Math.max(config.game.remoteGapMaxRetryMs, config.game.remoteGapTimeoutMs)
+    );
+    this.gapTimer = setTimeout(() => {
+      this.gapTimer = null;
+      void this.recoverFromGap();
+    }, delay);
+  }
+
+  /**
+   * Send every local client a fresh snapshot.
+   */
+  private pushSnapshotToClients(): void {
+    for (const client of this.clients) {
+      if (client.readyState !== 1) continue;
+      this.syncClient(client);
+      const ack = this.clientAcks.get(client);
+      if (ack) {
+        ack.seq = this.state.seq;
+        ack.syncedAt = Date.now();
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Snapshot Restore
+  // ==========================================================================
+
+  /**
+   * Restore the room's entities to a version from its snapshot history.
+   *
+   * Only the owner restores; other instances forward the request to it. The
+   * owner publishes the change as an ordinary delta (so the log stays
+   * replayable), saves a new snapshot, then tells every instance holding the
+   * room to reload and push a fresh snapshot to its clients.
+   */
+  public async restoreSnapshot(version: number): Promise<'restored' | 'forwarded' | 'not-found'> {
+    if (!this.owner) {
+      await this.forwardCommand({ type: 'restore', version });
+      return 'forwarded';
+    }
+
+    const snapshot = await this.backplane.loadSnapshotVersion(this.roomId, version);
+    if (!snapshot) {
+      return 'not-found';
+    }
+
+    // Ownership may have moved while the version was loading
+    if (!this.owner) {
+      await this.forwardCommand({ type: 'restore', version });
+      return 'forwarded';
+    }
+
+    const parsed: { entities?: Record<string, EntityState> } = JSON.parse(snapshot.data);
+    this.state.entities = parsed.entities ?? {};
+    this.flushDelta();
+
+    await this.saveSnapshot();
+    this.pushSnapshotToClients();
+    void this.forwardCommand({ type: 'restored', version, seq: this.state.seq });
+
+    roomLogger.warn(
+      { roomId: this.roomId, version, snapshotSeq: snapshot.seq, seq: this.state.seq },
+      'Room restored to snapshot version'
+    );
+    return 'restored';
+  }
+
+  /**
+   * Catch up with a restore made by another instance.
+   */
+  private async reloadAfterRestore(version: number, seq: number): Promise<void> {
+    // 'lww' rooms already merged the restoring delta; their seqs are per instance
+    if (!this.lww) {
+      try {
+        // Usually a no-op: the restoring delta has already been applied
+        await this.reloadFromBackplane();
+      } catch (err) {
+        roomLogger.error({ error: (err as Error).message, roomId: this.roomId }, 'Failed to reload after restore');
+      }
+    }
+
+    this.pushSnapshotToClients();
+    roomLogger.info({ roomId: this.roomId, version, restoredSeq: seq, seq: this.state.seq }, 'Reloaded after snapshot restore');
+  }
+
+  // ==========================================================================
+  // Room Ownership
+  // ==========================================================================
+
+  /**
+   * Whether this instance holds the room's lease.
+   */
+  public isOwner(): boolean {
+    return this.owner;
+  }
+
+  /**
+   * Give up the room's lease (e.g. before the room is deleted locally).
+   */
+  public async releaseOwnership(): Promise<void> {
+    if (!this.owner || this.lww) return;
+
+    this.owner = false;
+    await this.backplane.releaseLease(this.roomId);
+  }
+
+  /**
+   * Handle a command from another instance holding this room.
+   */
+  public handleRemoteCommand(command: RoomCommand): void {
+    if (command.type === 'restored') {
+      void this.reloadAfterRestore(command.version, command.seq);
+      return;
+    }
+
+    // 'lww' rooms have no owner; every instance applies its own inputs
+    if (this.lww) return;
+
+    if (command.type === 'owner') {
+      if (this.owner) {
+        this.demote('Another instance took over room ownership');
+      }
+
+      // Tell the new owner which players are connected here
+      for (const playerId of this.playerSockets.keys()) {
+        void this.forwardCommand({ type: 'join', playerId, resume: true });
+      }
+      return;
+    }
+
+    if (command.type === 'resync') {
+      if (!this.owner && command.seq > this.state.seq) {
+        void this.recoverFromGap();
+      }
+      return;
+    }
+
+    if (command.type === 'rejected') {
+      if (command.targetInstanceId === this.backplane.instanceId) {
+        this.sendUnauthorized(command.playerId, command.entityId);
+      }
+      return;
+    }
+
+    if (!this.owner) return;
+
+    switch (command.type) {
+      case 'input': {
+        const { input } = command;
+        const target = input.entityId ?? input.playerId;
+        if (!this.canMutate(input.playerId, target)) {
+          roomLogger.warn(
+            { roomId: this.roomId, playerId: input.playerId, entityId: target, fromInstance: command.instanceId },
+            'Rejected forwarded input for unowned entity'
+          );
+          void this.forwardCommand({
+            type: 'rejected',
+            targetInstanceId: command.instanceId,
+            playerId: input.playerId,
+            entityId: target,
+          });
+          return;
+        }
+        // Followers validate before forwarding, so this only catches a schema mismatch
+        if (!this.validateInput(input.payload).valid) {
+          roomLogger.warn(
+            { roomId: this.roomId, playerId: input.playerId, fromInstance: command.instanceId },
+            'Rejected invalid forwarded input'
+          );
+          return;
+        }
+        this.applyInput(input);
+        return;
+      }
+      case 'join':
+        this.addRemotePlayer(command.playerId, command.instanceId, command.resume ?? false);
+        return;
+      case 'leave':
+        this.removeRemotePlayer(command.playerId, command.instanceId);
+        return;
+      case 'restore':
+        void this.restoreSnapshot(command.version);
+        return;
+    }
+  }
+
+  /**
+   * Renew our lease, or try to take over a room whose owner went away.
+   */
+  private async checkLease(): Promise<void> {
+    if (this.leaseCheckInFlight) return;
+    this.leaseCheckInFlight = true;
+
+    try {
+      if (this.owner) {
+        if (!(await this.backplane.renewLease(this.roomId, config.ownership.leaseTtlMs))) {
+          this.demote('Room lease lost');
+        }
+      } else if (await this.backplane.acquireLease(this.roomId, config.ownership.leaseTtlMs)) {
+        await this.promote();
+      }
+    } catch (err) {
+      roomLogger.error({ error: (err as Error).message, roomId: this.roomId }, 'Room lease check failed');
+    } finally {
+      this.leaseCheckInFlight = false;
+    }
+  }
+
+  /**
+   * Become the owner: catch up from the backplane, then start minting seq.
+   */
+  private async promote(): Promise<void> {
+    try {
+      await this.reloadFromBackplane();
+    } catch (err) {
+      roomLogger.error({ error: (err as Error).message, roomId: this.roomId }, 'Failed to load state for takeover');
+    }
+
+    this.owner = true;
+    this.lastTickAt = Date.now();
+    this.pendingRemoteDeltas.clear();
+    this.gapRecoveryAttempts = 0;
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+
+    for (const playerId of this.playerSockets.keys()) {
+      this.markPlayerConnected(playerId, false);
+    }
+    void this.forwardCommand({ type: 'owner' });
+
+    roomLogger.warn({ roomId: this.roomId, seq: this.state.seq }, 'Took over room ownership');
+  }
+
+  /**
+   * Stop acting as owner. Unflushed local changes are dropped and queued
+   * inputs are forwarded to whoever owns the room now.
+   */
+  private demote(reason: string): void {
+    this.owner = false;
+    this.dirty = false;
+    this.state.entities = structuredClone(this.previousState.entities);
+
+    const inputs = this.inputQueue;
+    this.inputQueue = [];
+    for (const input of inputs) {
+      void this.forwardCommand({ type: 'input', input });
+    }
+
+    for (const timer of this.playerDisconnectTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.playerDisconnectTimers.clear();
+    this.remotePlayers.clear();
+    const droppedDeltas = this.outbound.clear();
+
+    roomLogger.warn(
+      { roomId: this.roomId, seq: this.state.seq, forwardedInputs: inputs.length, droppedDeltas },
+      reason
+    );
+  }
+
+  /**
+   * Track a player connected through a follower instance.
+   * `resume` marks players re-announced to a new owner, which skip onJoin.
+   */
+  private addRemotePlayer(playerId: string, instanceId: string, resume: boolean): void {
+    const wasPresent = this.isPlayerPresent(playerId);
+
+    const instances = this.remotePlayers.get(playerId) ?? new Set<string>();
+    instances.add(instanceId);
+    this.remotePlayers.set(playerId, instances);
+
+    this.markPlayerConnected(playerId, !wasPresent && !resume);
+  }
+
+  private removeRemotePlayer(playerId: string, instanceId: string): void {
+    const instances = this.remotePlayers.get(playerId);
+    if (!instances) return;
+
+    instances.delete(instanceId);
+    if (instances.size === 0) {
+      this.remotePlayers.delete(playerId);
+    }
+
+    if (!this.isPlayerPresent(playerId)) {
+      this.markPlayerDisconnected(playerId);
+    }
+  }
+
+  /**
+   * Tell a player's local sockets the owner refused their input.
+   */
+  private sendUnauthorized(playerId: string, entityId: string): void {
+    const sockets = this.playerSockets.get(playerId);
+    if (!sockets) return;
+
+    const message: WsErrorMessage = {
+      type: 'error',
+      code: ErrorCodes.UNAUTHORIZED,
+      message: `Not allowed to modify entity ${entityId}`,
+    };
+    for (const socket of sockets) {
+      this.sendToClient(socket, encodeForSocket(socket, message));
+    }
+  }
+
+  /**
+   * Publish a command to the other instances holding this room.
+   */
+  private async forwardCommand(body: RoomCommandBody): Promise<void> {
+    try {
+      const command = createRoomCommand(this.roomId, this.backplane.instanceId, body);
+      await this.backplane.publish(this.roomId, 'command', encodeRoomCommand(command));
+    } catch (err) {
+      roomLogger.error(
+        { error: (err as Error).message, roomId: this.roomId, type: body.type },
+        'Failed to forward room command'
+      );
+    }
+  }
+
+  /**
+   * Publish a delta once every earlier one has been sent or queued, so a
+   * failed delta is queued ahead of the later ones and the log and queue
+   * always see seqs in order.
+   */
+  private queuePublish(fullDelta: FullDelta, standard?: Buffer): void {
+    // Don't re-publish if we're applying a remote delta
+    if (this.isApplyingRemoteDelta) {
+      return;
+    }
+
+    this.publishChain = this.publishChain.then(() => this.publishDeltaToBackplane(fullDelta, standard));
+  }
+
+  /**
+   * Publish delta to the backplane for cross-instance sync (via queuePublish).
+   * `standard` is the delta's standard encoding when already made.
+   */
+  private async publishDeltaToBackplane(fullDelta: FullDelta, standard?: Buffer): Promise<void> {
+    // Demoted while this waited; the new owner mints these seqs now
+    if (!this.lww && !this.owner) {
+      return;
+    }
+
+    try {
+      standard ??= encodeDelta(fullDelta);
+      // Compact frames carry no clock, so lww rooms always publish the standard encoding
+      const encoded = config.delta.compactRedis && !fullDelta.clock ? this.encodeCompactForRedis(fullDelta) : standard;
+
+      // The log always holds the standard encoding so it can be replayed
+      // without a compact dictionary
+      const outbound: OutboundDelta = {
+        seq: fullDelta.seq,
+        message: encoded,
+        log: config.stream.enabled ? standard.toString('base64') : null,
+      };
+
+      // Keep deltas in order behind anything still waiting from an outage
+      if (this.flushingOutbound || this.outbound.hasPending() || !this.backplane.isConnected()) {
+        this.queueOutbound(outbound);
+        return;
+      }
+
+      try {
+        await this.sendDelta(outbound);
+      } catch (err) {
+        roomLogger.warn(
+          { error: (err as Error).message, roomId: this.roomId, seq: outbound.seq },
+          'Failed to publish delta, queueing it'
+        );
+        this.queueOutbound(outbound);
+        return;
+      }
+      roomLogger.info({ roomId: this.roomId, seq: fullDelta.seq, tick: fullDelta.tick }, 'Delta published');
+    } catch (err) {
+      roomLogger.error(
+        { error: (err as Error).message, roomId: this.roomId },
+        'Failed to publish delta'
+      );
+    }
+  }
+
+  private async sendDelta(delta: OutboundDelta): Promise<void> {
+    await Promise.all([
+      this.backplane.publish(this.roomId, 'delta', delta.message),
+      delta.log !== null ? this.backplane.appendLog(this.roomId, delta.log, delta.seq) : null,
+    ]);
+  }
+
+  private queueOutbound(delta: OutboundDelta): void {
+    const wasOverflowed = this.outbound.overflowed;
+
+    if (!this.outbound.push(delta) && !wasOverflowed) {
+      roomLogger.warn(
+        { roomId: this.roomId, seq: delta.seq, capacity: config.game.outboundQueueSize },
+        'Outbound queue overflowed, will publish full state instead of queued deltas'
+      );
+    }
+  }
+
+  /**
+   * Send the traffic held back during a backplane outage, oldest first. An
+   * overflowed queue is replaced by a full-state publish, and a pending
+   * snapshot is saved last. Stops at the first failure and retries later.
+   */
+  public async flushOutbound(): Promise<void> {
+    if (this.flushingOutbound || !this.outbound.hasPending() || !this.backplane.isConnected()) {
+      return;
+    }
+    this.flushingOutbound = true;
+    const queued = this.outbound.size;
+
+    try {
+      // The lease may have expired during the outage; demoting drops the queue,
+      // since a new owner has been minting the same seqs
+      if (this.leaseTimer) {
+        await this.checkLease();
+      }
+
+      let next = this.outbound.peek();
+      while (next || this.outbound.overflowed) {
+        if (next) {
+          await this.sendDelta(next);
+          this.outbound.shift();
+        } else {
+          // Deltas made while this is in flight queue behind it
+          this.outbound.overflowed = false;
+          try {
+            await this.publishFullState();
+          } catch (err) {
+            this.outbound.overflowed = true;
+            throw err;
+          }
+        }
+        next = this.outbound.peek();
+      }
+
+      if (this.outbound.snapshotPending) {
+        await this.writeSnapshot();
+        this.outbound.snapshotPending = false;
+      }
+
+      roomLogger.info({ roomId: this.roomId, queued, seq: this.state.seq }, 'Outbound queue flushed');
+    } catch (err) {
+      this.outboundRetryAt = Date.now() + config.ownership.renewIntervalMs;
+      roomLogger.warn(
+        { error: (err as Error).message, roomId: this.roomId, remaining: this.outbound.size },
+        'Outbound queue flush interrupted'
+      );
+    } finally {
+      this.flushingOutbound = false;
+    }
+  }
+
+  /**
+   * Stand in for deltas dropped from an overflowed outbound queue. Owner
+   * rooms save a snapshot and tell the other instances to reload from it;
+   * 'lww' rooms re-send their field registers, which merge idempotently.
+   */
+  private async publishFullState(): Promise<void> {
+    // Receivers missed dictionary growth, so the next compact frame is a keyframe
+    this.compactPublishCount = 0;
+    const { seq, tick } = this.state;
+
+    if (this.lww) {
+      const entities = this.state.entities as Record<string, Record<string, unknown>>;
+      for (const { delta, clock } of this.lww.exportDeltas(entities)) {
+        const frame = encodeDelta(createDeltaPayload(this.roomId, delta, tick, seq, this.backplane.instanceId, clock));
+        await this.sendDelta({ seq, message: frame, log: config.stream.enabled ? frame.toString('base64') : null });
+      }
+    } else {
+      await this.writeSnapshot();
+      await this.forwardCommand({ type: 'resync', seq });
+    }
+
+    roomLogger.warn({ roomId: this.roomId, seq }, 'Published full room state after outbound overflow');
+  }
+
+  /**
+   * Get the number of deltas waiting to be published.
+   */
+  public getOutboundQueueSize(): number {
+    return this.outbound.size;
+  }
+
+  /**
+   * Encode a delta as a compact Redis frame, sending a dictionary keyframe
+   * every config.delta.compactKeyframeInterval publishes.
+   */
+  private encodeCompactForRedis(fullDelta: FullDelta): Buffer {
+    const keyframe = this.compactPublishCount++ % config.delta.compactKeyframeInterval === 0;
+
+    const frame = encodeCompactDelta(
+      fullDelta.delta,
+      {
+        tick: fullDelta.tick,
+        seq: fullDelta.seq,
+        timestamp: fullDelta.timestamp,
+        roomId: fullDelta.roomId,
+        instanceId: fullDelta.instanceId,
+      },
+      this.redisDictionary,
+      keyframe ? { fields: 0, entities: 0 } : this.redisDictionaryAnnounced
+    );
+    this.redisDictionaryAnnounced = this.redisDictionary.size;
+
+    return encodeDelta(frame);
+  }
+
+  /**
+   * Get the full compact dictionary for a client joining with the compact format.
+   */
+  public getCompactDictionary(socket: WebSocket): CompactDictionaryState {
+    const dictionary = this.clientDictionary.export();
+    this.compactAnnounced.set(socket, this.clientDictionary.size);
+    return dictionary;
+  }
+
+  /**
+   * Broadcast a delta to all connected clients in this room.
+   * Each delta format is built once and serialized at most once per wire
+   * encoding, unless the room filters by area of interest. `standardFrame`
+   * is reused for standard clients when the caller already built the delta
+   * message at the current seq.
+   */
+  public broadcastDelta(delta: EntityDelta, standardFrame?: OutgoingFrame): void {
+    if (isDeltaEmpty(delta)) {
+      return;
+    }
+
+    if (this.interest) {
+      this.broadcastWithInterest(delta, this.interest);
+      return;
+    }
+
+    const timestamp = Date.now();
+    const standard = standardFrame ?? new OutgoingFrame(() => this.createStandardDelta(delta, timestamp));
+    const compact = new OutgoingFrame(() => this.createCompactClientFrame(delta, timestamp));
+
+    for (const client of this.clients) {
+      if (client.readyState !== 1) continue;
+
+      const frame = (client as KasagiSocket).deltaFormat === 'compact' ? compact : standard;
+      this.sendToClient(client, frame.encodeFor(client));
+    }
+
+    roomLogger.debug(
+      {
+        roomId: this.roomId,
+        clientCount: this.clients.size,
+        deltaSize: standard.size,
+        compactDeltaSize: compact.size,
+      },
+      'Broadcast delta to clients'
+    );
+  }
+
+  /**
+   * Send each client only the entities inside its area of interest.
+   */
+  private broadcastWithInterest(delta: EntityDelta, interest: InterestManager): void {
+    const timestamp = Date.now();
+    const viewers = Array.from(this.clients, (socket) => ({
+      socket,
+      playerId: (socket as KasagiSocket).playerId,
+    }));
+
+    const perClient = interest.filterForViewers(
+      this.state.entities as Record<string, Record<string, unknown>>,
+      delta,
+      viewers
+    );
+
+    for (const [client, clientDelta] of perClient) {
+      if (client.readyState !== 1) continue;
+      this.sendToClient(
+        client,
+        this.encodeDeltaFor(client, { seq: this.state.seq, tick: this.state.tick, delta: clientDelta, timestamp })
+      );
+    }
+
+    roomLogger.debug(
+      { roomId: this.roomId, clientCount: this.clients.size, recipients: perClient.size },
+      'Broadcast filtered delta to clients'
+    );
+  }
+
+  private createStandardDelta(delta: EntityDelta, timestamp: number): WsDeltaMessage {
+    return {
       type: 'delta',
       roomId: this.roomId,
       tick: this.state.tick,
       seq: this.state.seq,
       delta,
-      timestamp: Date.now(),
+      timestamp,
     };
+  }
 
-    const encoded = msgpack.encode(message);
+  /**
+   * Encode a delta for a single client in its delta format and wire encoding.
+   * Compact frames announce dictionary entries from what that client has seen.
+   */
+  private encodeDeltaFor(client: WebSocket, entry: DeltaHistoryEntry): Buffer | string {
+    const { seq, tick, delta, timestamp } = entry;
+
+    if ((client as KasagiSocket).deltaFormat === 'compact') {
+      const announced = this.compactAnnounced.get(client) ?? { fields: 0, entities: 0 };
+      const frame = encodeCompactDelta(delta, { tick, seq, timestamp }, this.clientDictionary, announced);
+      this.compactAnnounced.set(client, this.clientDictionary.size);
+      return encodeForSocket(client, frame);
+    }
 
-    roomLogger.debug(
-      { roomId: this.roomId, clientCount: this.clients.size, deltaSize: encoded.length },
-      'Broadcasting delta to clients'
+    return encodeForSocket(client, { type: 'delta', roomId: this.roomId, tick, seq, delta, timestamp });
+  }
+
+  /**
+   * Build a compact client frame for a delta, announcing new dictionary entries.
+   */
+  private createCompactClientFrame(delta: EntityDelta, timestamp: number): CompactDeltaFrame {
+    const frame = encodeCompactDelta(
+      delta,
+      { tick: this.state.tick, seq: this.state.seq, timestamp },
+      this.clientDictionary,
+      this.clientDictionaryAnnounced
     );
+    this.clientDictionaryAnnounced = this.clientDictionary.size;
 
-    for (const client of this.clients) {
-      if (client.readyState === 1) {
-        try {
-          client.send(encoded);
-        } catch (err) {
-          roomLogger.error(
-            { roomId: this.roomId, error: (err as Error).message },
-            'Failed to send delta to client'
-          );
-        }
+    return frame;
+  }
+
+  private sendToClient(client: WebSocket, data: Buffer | string): void {
+    try {
+      client.send(data);
+    } catch (err) {
+      roomLogger.error(
+        { roomId: this.roomId, error: (err as Error).message },
+        'Failed to send message to client'
+      );
+    }
+  }
+
+  // ==========================================================================
+  // Delta History / Client Catch-up
+  // ==========================================================================
+
+  private recordHistory(delta: EntityDelta): void {
+    this.history.push({
+      seq: this.state.seq,
+      tick: this.state.tick,
+      delta,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Get the buffered deltas a client needs after `lastSeq`, or null if it
+   * needs a snapshot instead. Area-of-interest rooms always use snapshots
+   * since buffered deltas are unfiltered.
+   */
+  private getReplayableDeltas(lastSeq?: number): DeltaHistoryEntry[] | null {
+    if (lastSeq === undefined || this.interest) {
+      return null;
+    }
+    if (lastSeq === this.state.seq) {
+      return [];
+    }
+    return this.history.getSince(lastSeq);
+  }
+
+  /**
+   * Check whether a client at `lastSeq` can be caught up by delta replay.
+   */
+  public canReplayFrom(lastSeq?: number): boolean {
+    return this.getReplayableDeltas(lastSeq) !== null;
+  }
+
+  /**
+   * Bring a client up to date: replay the buffered deltas after `lastSeq`
+   * when they are still available, otherwise send a snapshot.
+   */
+  public syncClient(socket: WebSocket, lastSeq?: number): 'replay' | 'snapshot' {
+    const missed = this.getReplayableDeltas(lastSeq);
+
+    if (missed) {
+      for (const entry of missed) {
+        this.sendToClient(socket, this.encodeDeltaFor(socket, entry));
       }
+
+      roomLogger.debug(
+        { roomId: this.roomId, lastSeq, replayed: missed.length, seq: this.state.seq },
+        'Replayed missed deltas to client'
+      );
+      return 'replay';
     }
+
+    const snapshotMessage = this.getSnapshotMessage(socket);
+    this.sendToClient(socket, encodeForSocket(socket, snapshotMessage));
+
+    roomLogger.debug(
+      { roomId: this.roomId, lastSeq, tick: snapshotMessage.tick, seq: snapshotMessage.seq },
+      'Sent snapshot to client'
+    );
+    return 'snapshot';
   }
 
+  // ==========================================================================
+  // Client Acknowledgements
+  // ==========================================================================
+
   /**
-   * Remove an entity from the room state.
+   * Record the last seq a client has applied.
    */
-  public removeEntity(playerId: string): EntityDelta {
-    this.previousState = this.cloneState();
+  public acknowledge(socket: WebSocket, seq: number): void {
+    const now = Date.now();
+    const current = this.clientAcks.get(socket);
+    const ackedSeq = Math.min(seq, this.state.seq);
+
+    if (current) {
+      current.seq = Math.max(current.seq, ackedSeq);
+      current.ackedAt = now;
+      current.awaitingAck = false;
+    } else {
+      this.clientAcks.set(socket, { seq: ackedSeq, ackedAt: now, syncedAt: 0, awaitingAck: false });
+    }
+  }
 
-    if (this.state.entities[playerId]) {
-      delete this.state.entities[playerId];
-      this.state.seq++;
-      this.state.tick++;
+  /**
+   * Resync a client that reported a gap, from `lastSeq` or its last ack.
+   */
+  public resyncClient(socket: WebSocket, lastSeq?: number): 'replay' | 'snapshot' {
+    const ack = this.clientAcks.get(socket);
+    const fromSeq = lastSeq ?? ack?.seq;
 
-      const delta = computeEntityDelta(
-        this.previousState.entities as Record<string, Record<string, unknown>>,
-        this.state.entities as Record<string, Record<string, unknown>>
+    if (ack) {
+      ack.syncedAt = Date.now();
+      if (fromSeq !== undefined) ack.seq = Math.min(fromSeq, this.state.seq);
+    }
+
+    const mode = this.syncClient(socket, fromSeq);
+    if (ack) {
+      // Everything up to the current seq has been sent now
+      ack.seq = this.state.seq;
+      ack.awaitingAck = true;
+    }
+    roomLogger.info({ roomId: this.roomId, fromSeq, seq: this.state.seq, mode }, 'Client resynced');
+    return mode;
+  }
+
+  /**
+   * Push a catch-up to acking clients that fell too far behind and have not
+   * acked or been resynced within the cooldown. A client that has not acked
+   * since its last resync gets no other until it acks again.
+   */
+  private resyncLaggingClients(now: number): void {
+    const cooldown = config.game.ackResyncCooldownMs;
+
+    for (const [socket, ack] of this.clientAcks) {
+      const behind = this.state.seq - ack.seq;
+      if (behind <= config.game.ackLagThreshold) continue;
+      if (ack.awaitingAck) continue;
+      if (now - Math.max(ack.ackedAt, ack.syncedAt) < cooldown) continue;
+
+      roomLogger.warn(
+        { roomId: this.roomId, ackedSeq: ack.seq, seq: this.state.seq, behind },
+        'Client fell behind, resyncing'
       );
+      this.resyncClient(socket);
+    }
+  }
+
+  /**
+   * Get the seq range currently held in the delta history.
+   */
+  public getHistoryRange(): { oldestSeq: number | null; latestSeq: number | null; size: number } {
+    return {
+      oldestSeq: this.history.oldestSeq,
+      latestSeq: this.history.latestSeq,
+      size: this.history.size,
+    };
+  }
+
+  /**
+   * Remove an entity from the room state.
+   * The removal is broadcast with the next tick's delta.
+   */
+  public removeEntity(playerId: string): boolean {
+    if (this.state.entities[playerId]) {
+      delete this.state.entities[playerId];
+      this.entityOwners.delete(playerId);
+      this.dirty = true;
 
       roomLogger.info({ roomId: this.roomId, playerId }, 'Entity removed from room');
-      return delta;
+      return true;
     }
 
-    return {};
+    return false;
   }
 
   /**
@@ -445,18 +1936,27 @@ export class RoomState {
 
   /**
    * Get snapshot message for sending to new clients.
+   * In area-of-interest rooms the snapshot only holds what `socket` can see.
    */
-  public getSnapshotMessage(): {
+  public getSnapshotMessage(socket?: WebSocket): {
     type: 'snapshot';
     roomId: string;
     state: RoomStateData;
     tick: number;
     seq: number;
   } {
+    const state = this.getFullState();
+    if (this.interest && socket) {
+      state.entities = this.interest.snapshotFor(
+        { socket, playerId: (socket as KasagiSocket).playerId },
+        state.entities as Record<string, Record<string, unknown>>
+      );
+    }
+
     return {
       type: 'snapshot',
       roomId: this.roomId,
-      state: this.getFullState(),
+      state,
       tick: this.state.tick,
       seq: this.state.seq,
     };
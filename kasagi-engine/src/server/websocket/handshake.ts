@@ -0,0 +1,122 @@
+import { ErrorCodes, SUPPORTED_PROTOCOL_VERSIONS, WsCloseCodes, type ErrorCode } from '../../shared/constants.js';
+import type {
+  CompressionMode,
+  DeltaFormat,
+  NegotiatedSettings,
+  ProtocolVersion,
+  WireEncoding,
+  WsHelloMessage,
+} from '../../shared/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NegotiationResult =
+  | { accepted: true; settings: NegotiatedSettings }
+  | { accepted: false; code: ErrorCode; closeCode: number; reason: string };
+
+// ============================================================================
+// Server Capabilities
+// ============================================================================
+
+// 'mixed' is only for version 1 clients that never send hello
+const SERVER_ENCODINGS: readonly WireEncoding[] = ['json', 'msgpack'];
+const DEFAULT_HELLO_ENCODING: WireEncoding = 'json';
+const SERVER_DELTA_FORMATS: readonly DeltaFormat[] = ['standard', 'compact'];
+
+// The server sends one frame per message for now
+const SERVER_BATCHING = false;
+
+// ============================================================================
+// Negotiation
+// ============================================================================
+
+/**
+ * Settings for a client that never sent hello: the original protocol.
+ * `compression` is whatever the WebSocket upgrade agreed.
+ */
+export function legacySettings(compression: CompressionMode): NegotiatedSettings {
+  return {
+    protocolVersion: 1,
+    encoding: 'mixed',
+    compression,
+    deltaFormat: 'standard',
+    batching: false,
+    acks: true,
+  };
+}
+
+/**
+ * Agree on connection settings from a client's hello. Each list capability
+ * takes the client's most preferred value the server supports; omitted
+ * capabilities take the version 1 defaults, except that the encoding
+ * defaults to 'json'. Compression was settled by the WebSocket upgrade, so
+ * the client must merely accept it.
+ */
+export function negotiate(hello: WsHelloMessage, compression: CompressionMode): NegotiationResult {
+  const { protocolVersion, capabilities = {} } = hello;
+
+  if (!(SUPPORTED_PROTOCOL_VERSIONS as readonly number[]).includes(protocolVersion)) {
+    return {
+      accepted: false,
+      code: ErrorCodes.UNSUPPORTED_PROTOCOL,
+      closeCode: WsCloseCodes.UNSUPPORTED_PROTOCOL,
+      reason: `Unsupported protocol version ${protocolVersion} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`,
+    };
+  }
+
+  const defaults = legacySettings(compression);
+
+  const encoding = pickPreferred(capabilities.encodings, SERVER_ENCODINGS, DEFAULT_HELLO_ENCODING);
+  if (!encoding) {
+    return incompatible(`No supported encoding in [${capabilities.encodings}] (supported: ${SERVER_ENCODINGS.join(', ')})`);
+  }
+
+  const deltaFormat = pickPreferred(capabilities.deltaFormats, SERVER_DELTA_FORMATS, defaults.deltaFormat);
+  if (!deltaFormat) {
+    return incompatible(
+      `No supported delta format in [${capabilities.deltaFormats}] (supported: ${SERVER_DELTA_FORMATS.join(', ')})`
+    );
+  }
+
+  if (capabilities.compression !== undefined && !capabilities.compression.includes(compression)) {
+    return incompatible(`Connection compression is ${compression}, not in [${capabilities.compression}]`);
+  }
+
+  return {
+    accepted: true,
+    settings: {
+      protocolVersion: protocolVersion as ProtocolVersion,
+      encoding,
+      compression,
+      deltaFormat,
+      batching: SERVER_BATCHING && capabilities.batching === true,
+      acks: capabilities.acks ?? defaults.acks,
+    },
+  };
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * The first client-preferred value the server supports; `fallback` when the
+ * client stated no preference, null when nothing matches.
+ */
+function pickPreferred<T>(preferred: T[] | undefined, supported: readonly T[], fallback: T): T | null {
+  if (preferred === undefined) {
+    return fallback;
+  }
+  return preferred.find((value) => supported.includes(value)) ?? null;
+}
+
+function incompatible(reason: string): NegotiationResult {
+  return {
+    accepted: false,
+    code: ErrorCodes.INCOMPATIBLE_CAPABILITIES,
+    closeCode: WsCloseCodes.INCOMPATIBLE_CAPABILITIES,
+    reason,
+  };
+}
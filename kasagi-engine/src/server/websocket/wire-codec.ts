@@ -0,0 +1,115 @@
+import type { WebSocket } from 'ws';
+import msgpack from 'msgpack-lite';
+import type { KasagiSocket, WireEncoding } from '../../shared/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** How a single message is serialized on the wire. */
+type Serialization = 'json' | 'msgpack';
+
+// Server messages that the version 1 'mixed' encoding sends as JSON text;
+// everything else (snapshots, deltas, compact frames, left) is MessagePack
+const MIXED_JSON_TYPES: ReadonlySet<string> = new Set(['welcome', 'joined', 'roomList', 'error']);
+
+// ============================================================================
+// Server → Client
+// ============================================================================
+
+/**
+ * The socket's negotiated encoding; 'mixed' until (or without) a handshake.
+ */
+function socketEncoding(socket: WebSocket): WireEncoding {
+  return (socket as KasagiSocket).negotiated?.encoding ?? 'mixed';
+}
+
+/**
+ * Encode a server message in the socket's negotiated encoding.
+ */
+export function encodeForSocket(socket: WebSocket, message: unknown): Buffer | string {
+  return serialize(message, serializationFor(socketEncoding(socket), message));
+}
+
+/**
+ * A server message sent to many sockets, built on first use and serialized
+ * at most once per serialization its recipients need. `msgpackFrame` seeds
+ * the MessagePack bytes when the caller already has them (e.g. the delta
+ * frame shared with the backplane).
+ */
+export class OutgoingFrame {
+  private readonly build: () => unknown;
+  private message: unknown;
+  private built: boolean;
+  private readonly encoded: Partial<Record<Serialization, Buffer | string>> = {};
+
+  constructor(build: () => unknown, msgpackFrame?: Buffer) {
+    this.build = build;
+    this.built = false;
+    if (msgpackFrame) {
+      this.encoded.msgpack = msgpackFrame;
+    }
+  }
+
+  public encodeFor(socket: WebSocket): Buffer | string {
+    if (!this.built) {
+      this.message = this.build();
+      this.built = true;
+    }
+
+    const serialization = serializationFor(socketEncoding(socket), this.message);
+    return (this.encoded[serialization] ??= serialize(this.message, serialization));
+  }
+
+  /** Length of the MessagePack (else JSON) serialization, if one was made. */
+  public get size(): number | undefined {
+    return (this.encoded.msgpack ?? this.encoded.json)?.length;
+  }
+}
+
+// ============================================================================
+// Client → Server
+// ============================================================================
+
+/**
+ * Decode a client message in the socket's negotiated encoding: MessagePack
+ * for 'msgpack', JSON text for 'json' and 'mixed'. Before the handshake a
+ * binary MessagePack map is accepted too, so hello can be sent in the
+ * encoding the client is asking for. Throws on malformed input or
+ * anything other than an object.
+ */
+export function decodeFromSocket(socket: WebSocket, data: Buffer, isBinary: boolean): unknown {
+  const negotiated = (socket as KasagiSocket).negotiated;
+  const binary = negotiated ? negotiated.encoding === 'msgpack' : isBinary && isMsgpackMap(data);
+
+  const message: unknown = binary ? msgpack.decode(data) : JSON.parse(data.toString('utf-8'));
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    throw new Error('Message must be an object');
+  }
+  return message;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function serializationFor(encoding: WireEncoding, message: unknown): Serialization {
+  if (encoding !== 'mixed') {
+    return encoding;
+  }
+
+  const type = (message as { type?: unknown } | null)?.type;
+  return typeof type === 'string' && MIXED_JSON_TYPES.has(type) ? 'json' : 'msgpack';
+}
+
+function serialize(message: unknown, serialization: Serialization): Buffer | string {
+  return serialization === 'json' ? JSON.stringify(message) : Buffer.from(msgpack.encode(message));
+}
+
+/**
+ * MessagePack maps start with a fixmap, map16 or map32 byte; JSON objects start with '{'.
+ */
+function isMsgpackMap(data: Buffer): boolean {
+  const first = data[0];
+  return (first >= 0x80 && first <= 0x8f) || first === 0xde || first === 0xdf;
+}
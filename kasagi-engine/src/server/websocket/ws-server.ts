@@ -1,14 +1,26 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import msgpack from 'msgpack-lite';
 import { logger } from '../../utils/logger.js';
 import { config } from '../config/env.js';
-import { joinRoom, leaveRoom, getRoom } from '../rooms/room-manager.js';
+import { joinRoom, leaveRoom, getRoom, listRooms } from '../rooms/room-manager.js';
+import { hasRoomHandler } from '../rooms/room-handlers.js';
+import type { RoomState } from '../rooms/room-state.js';
+import { legacySettings, negotiate } from './handshake.js';
+import { decodeFromSocket, encodeForSocket, OutgoingFrame } from './wire-codec.js';
+import { ErrorCodes } from '../../shared/constants.js';
 import type { 
+  CompressionMode,
   KasagiSocket, 
+  ProtocolVersion,
   WsClientMessage, 
+  WsHelloMessage,
   WsJoinMessage, 
   WsInputMessage,
+  WsAckMessage,
+  WsResyncMessage,
+  WsListRoomsMessage,
+  WsWelcomeMessage,
   WsJoinedMessage,
+  WsRoomListMessage,
   WsErrorMessage,
 } from '../../shared/types.js';
 
@@ -20,11 +32,33 @@ const HEARTBEAT_INTERVAL = 30000;
 let wss: WebSocketServer | null = null;
 let heartbeatTimer: NodeJS.Timeout | null = null;
 
+type MessageHandlers = {
+  [T in Exclude<WsClientMessage['type'], 'hello'>]?: (
+    socket: KasagiSocket,
+    message: Extract<WsClientMessage, { type: T }>
+  ) => void | Promise<void>;
+};
+
+const v1Handlers: MessageHandlers = {
+  join: handleJoin,
+  input: handleInput,
+  ack: handleAck,
+  resync: handleResync,
+  listRooms: handleListRooms,
+};
+
+// Messages each protocol version understands. Version 2 only adds the
+// handshake so far; later versions add or replace entries here.
+const messageHandlers: Record<ProtocolVersion, MessageHandlers> = {
+  1: v1Handlers,
+  2: { ...v1Handlers },
+};
+
 /**
  * Start the WebSocket server.
  */
 export function startWsServer(): WebSocketServer {
-  wss = new WebSocketServer({ port: WS_PORT });
+  wss = new WebSocketServer({ port: WS_PORT, perMessageDeflate: config.wsCompression });
 
   wsLogger.info({ port: WS_PORT }, 'WebSocket server starting...');
 
@@ -53,6 +87,8 @@ function handleConnection(socket: WebSocket): void {
   kasagiSocket.roomId = null;
   kasagiSocket.playerId = null;
   kasagiSocket.isAlive = true;
+  kasagiSocket.deltaFormat = 'standard';
+  kasagiSocket.negotiated = null;
 
   wsLogger.info('Client connected');
 
@@ -62,8 +98,8 @@ function handleConnection(socket: WebSocket): void {
   });
 
   // Handle incoming messages
-  socket.on('message', (data: Buffer | string) => {
-    handleMessage(kasagiSocket, data);
+  socket.on('message', (data: Buffer, isBinary: boolean) => {
+    handleMessage(kasagiSocket, data, isBinary);
   });
 
   // Handle client disconnect
@@ -80,41 +116,138 @@ function handleConnection(socket: WebSocket): void {
 /**
  * Handle incoming WebSocket message.
  */
-function handleMessage(socket: KasagiSocket, data: Buffer | string): void {
+function handleMessage(socket: KasagiSocket, data: Buffer, isBinary: boolean): void {
   try {
-    // Parse JSON message from client
-    const rawMessage = typeof data === 'string' ? data : data.toString('utf-8');
-    const message: WsClientMessage = JSON.parse(rawMessage);
+    // Decode in the connection's negotiated encoding
+    const message = decodeFromSocket(socket, data, isBinary) as WsClientMessage;
 
     wsLogger.debug({ type: message.type }, 'Received message');
 
-    switch (message.type) {
-      case 'join':
-        handleJoin(socket, message as WsJoinMessage);
-        break;
-      case 'input':
-        handleInput(socket, message as WsInputMessage);
-        break;
-      default:
-        sendError(socket, 'INVALID_TYPE', `Unknown message type: ${(message as WsClientMessage).type}`);
+    if (message.type === 'hello') {
+      handleHello(socket, message);
+      return;
     }
+
+    // Clients that start without a handshake speak version 1
+    socket.negotiated ??= legacySettings(connectionCompression(socket));
+
+    const handler = messageHandlers[socket.negotiated.protocolVersion][message.type as keyof MessageHandlers] as
+      | ((socket: KasagiSocket, message: WsClientMessage) => void | Promise<void>)
+      | undefined;
+
+    if (!handler) {
+      sendError(socket, 'INVALID_TYPE', `Unknown message type: ${(message as WsClientMessage).type}`);
+      return;
+    }
+
+    handler(socket, message);
   } catch (err) {
-    wsLogger.error({ error: (err as Error).message }, 'Failed to parse message');
-    sendError(socket, 'PARSE_ERROR', 'Invalid JSON message');
+    wsLogger.error({ error: (err as Error).message, encoding: socket.negotiated?.encoding }, 'Failed to parse message');
+    sendError(socket, 'PARSE_ERROR', `Invalid ${socket.negotiated?.encoding === 'msgpack' ? 'MessagePack' : 'JSON'} message`);
+  }
+}
+
+/**
+ * Handle the protocol handshake. It must be the connection's first message;
+ * a rejected client gets an error and the connection is closed.
+ */
+function handleHello(socket: KasagiSocket, message: WsHelloMessage): void {
+  if (socket.negotiated) {
+    sendError(socket, ErrorCodes.PROTOCOL_ERROR, 'hello must be the first message on a connection');
+    return;
+  }
+
+  const { protocolVersion, capabilities } = message;
+
+  if (!Number.isInteger(protocolVersion)) {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'protocolVersion must be an integer');
+    return;
+  }
+
+  if (capabilities !== undefined) {
+    const { encodings, compression, deltaFormats, batching, acks } = capabilities;
+    const lists = [encodings, compression, deltaFormats];
+    if (lists.some((list) => list !== undefined && !Array.isArray(list))) {
+      sendError(socket, ErrorCodes.INVALID_INPUT, 'encodings, compression and deltaFormats must be arrays');
+      return;
+    }
+    if ([batching, acks].some((flag) => flag !== undefined && typeof flag !== 'boolean')) {
+      sendError(socket, ErrorCodes.INVALID_INPUT, 'batching and acks must be booleans');
+      return;
+    }
+  }
+
+  const result = negotiate(message, connectionCompression(socket));
+
+  if (!result.accepted) {
+    wsLogger.info({ protocolVersion, capabilities, reason: result.reason }, 'Rejected client handshake');
+    sendError(socket, result.code, result.reason);
+    socket.close(result.closeCode, result.code);
+    return;
   }
+
+  socket.negotiated = result.settings;
+  socket.deltaFormat = result.settings.deltaFormat;
+  wsLogger.debug({ settings: result.settings }, 'Client handshake accepted');
+
+  const response: WsWelcomeMessage = {
+    type: 'welcome',
+    ...result.settings,
+  };
+  socket.send(encodeForSocket(socket, response));
+}
+
+/**
+ * Compression agreed for the connection during the WebSocket upgrade.
+ */
+function connectionCompression(socket: KasagiSocket): CompressionMode {
+  return socket.extensions.includes('permessage-deflate') ? 'permessage-deflate' : 'none';
 }
 
 /**
  * Handle join room request.
  */
 async function handleJoin(socket: KasagiSocket, message: WsJoinMessage): Promise<void> {
-  const { roomId, playerId } = message;
+  const { roomId, playerId, roomType, lastSeq } = message;
+  const negotiated = socket.negotiated;
+  const deltaFormat = message.deltaFormat ?? negotiated?.deltaFormat ?? 'standard';
 
   if (!roomId) {
     sendError(socket, 'INVALID_ROOM', 'roomId is required');
     return;
   }
 
+  if (roomType !== undefined && !hasRoomHandler(roomType)) {
+    sendError(socket, 'INVALID_ROOM_TYPE', `Unknown room type: ${roomType}`);
+    return;
+  }
+
+  if (deltaFormat !== 'standard' && deltaFormat !== 'compact') {
+    sendError(socket, ErrorCodes.INVALID_INPUT, `Unknown delta format: ${deltaFormat}`);
+    return;
+  }
+
+  // The handshake settles the delta format; only version 1 picks it per join
+  if (negotiated && negotiated.protocolVersion > 1 && deltaFormat !== negotiated.deltaFormat) {
+    sendError(
+      socket,
+      ErrorCodes.PROTOCOL_ERROR,
+      `deltaFormat ${deltaFormat} differs from the negotiated ${negotiated.deltaFormat}`
+    );
+    return;
+  }
+
+  if (lastSeq !== undefined && (!Number.isInteger(lastSeq) || lastSeq < 0)) {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'lastSeq must be a non-negative integer');
+    return;
+  }
+
+  const existingRoom = getRoom(roomId);
+  if (existingRoom && roomType !== undefined && existingRoom.roomType !== roomType) {
+    sendError(socket, 'INVALID_ROOM_TYPE', `Room ${roomId} is of type ${existingRoom.roomType}`);
+    return;
+  }
+
   // Leave current room if already in one
   if (socket.roomId) {
     await leaveRoom(socket.roomId, socket);
@@ -123,38 +256,37 @@ async function handleJoin(socket: KasagiSocket, message: WsJoinMessage): Promise
   // Generate playerId if not provided
   const assignedPlayerId = playerId || `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   socket.playerId = assignedPlayerId;
+  socket.deltaFormat = deltaFormat;
 
   // Join the room (loads from snapshot if available)
-  const room = await joinRoom(roomId, socket);
+  const room = await joinRoom(roomId, socket, roomType);
 
-  wsLogger.info({ roomId, playerId: assignedPlayerId }, 'Client joined room');
+  wsLogger.info({ roomId, roomType: room.roomType, playerId: assignedPlayerId }, 'Client joined room');
 
-  // Send join confirmation (as JSON)
+  // Send join confirmation
   const response: WsJoinedMessage = {
     type: 'joined',
     roomId,
     playerId: assignedPlayerId,
+    roomType: room.roomType,
+    deltaFormat,
+    ...(deltaFormat === 'compact' && { dictionary: room.getCompactDictionary(socket) }),
+    sync: room.canReplayFrom(lastSeq) ? 'replay' : 'snapshot',
   };
-  socket.send(JSON.stringify(response));
+  socket.send(encodeForSocket(socket, response));
 
-  // Send current room state snapshot to the new client (MessagePack encoded)
-  const snapshotMessage = room.getSnapshotMessage();
-  socket.send(msgpack.encode(snapshotMessage));
-
-  wsLogger.debug(
-    { roomId, tick: snapshotMessage.tick, seq: snapshotMessage.seq },
-    'Sent snapshot to new client'
-  );
+  // Replay missed deltas, or send the current room state snapshot
+  room.syncClient(socket, lastSeq);
 }
 
 /**
  * Handle player input.
  */
 function handleInput(socket: KasagiSocket, message: WsInputMessage): void {
-  const { roomId, playerId, payload } = message;
+  const { roomId, playerId, entityId, payload } = message;
 
   if (!roomId || !playerId || !payload) {
-    sendError(socket, 'INVALID_INPUT', 'roomId, playerId, and payload are required');
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'roomId, playerId, and payload are required');
     return;
   }
 
@@ -170,11 +302,132 @@ function handleInput(socket: KasagiSocket, message: WsInputMessage): void {
     return;
   }
 
+  // Sockets may only act as the player they joined as
+  if (playerId !== socket.playerId) {
+    wsLogger.warn({ roomId, playerId, socketPlayerId: socket.playerId }, 'Rejected input for foreign playerId');
+    sendError(socket, ErrorCodes.UNAUTHORIZED, 'playerId does not match this connection');
+    return;
+  }
+
+  // Ownership grants live on the owner instance; it answers forwarded inputs it
+  // refuses with a 'rejected' command, and the room sends the error then
+  const targetEntityId = entityId ?? playerId;
+  if (room.isOwner() && !room.canMutate(playerId, targetEntityId)) {
+    wsLogger.warn({ roomId, playerId, entityId: targetEntityId }, 'Rejected input for unowned entity');
+    sendError(socket, ErrorCodes.UNAUTHORIZED, `Not allowed to modify entity ${targetEntityId}`);
+    return;
+  }
+
+  const validation = room.validateInput(payload);
+  if (!validation.valid) {
+    wsLogger.debug({ roomId, playerId, reason: validation.reason }, 'Rejected invalid input');
+    sendError(socket, ErrorCodes.INVALID_INPUT, validation.reason);
+    return;
+  }
+
   wsLogger.debug({ roomId, playerId }, 'Processing input');
 
   // Apply input to room state
-  // This automatically broadcasts to local clients AND publishes to Redis
-  room.applyInput({ playerId, payload }, socket);
+  // Queued until the next room tick, which broadcasts to local clients AND publishes to Redis
+  room.applyInput({ playerId, entityId: targetEntityId, payload }, socket);
+}
+
+/**
+ * Handle delta acknowledgement.
+ */
+function handleAck(socket: KasagiSocket, message: WsAckMessage): void {
+  const { roomId, seq } = message;
+
+  if (socket.negotiated && !socket.negotiated.acks) {
+    sendError(socket, ErrorCodes.PROTOCOL_ERROR, 'acks were not negotiated for this connection');
+    return;
+  }
+
+  if (!Number.isInteger(seq) || seq < 0) {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'seq must be a non-negative integer');
+    return;
+  }
+
+  const room = getJoinedRoom(socket, roomId);
+  if (!room) return;
+
+  room.acknowledge(socket, seq);
+}
+
+/**
+ * Handle a client-requested resync (seq gap or corrupted state).
+ */
+function handleResync(socket: KasagiSocket, message: WsResyncMessage): void {
+  const { roomId, lastSeq } = message;
+
+  if (lastSeq !== undefined && (!Number.isInteger(lastSeq) || lastSeq < 0)) {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'lastSeq must be a non-negative integer');
+    return;
+  }
+
+  const room = getJoinedRoom(socket, roomId);
+  if (!room) return;
+
+  wsLogger.info({ roomId, playerId: socket.playerId, lastSeq }, 'Client requested resync');
+  room.resyncClient(socket, lastSeq);
+}
+
+/**
+ * Handle a lobby request for a page of the cluster-wide room directory.
+ * Allowed whether or not the socket has joined a room.
+ */
+async function handleListRooms(socket: KasagiSocket, message: WsListRoomsMessage): Promise<void> {
+  const { requestId, roomType, tags, hasSpace, offset, limit } = message;
+
+  if (roomType !== undefined && typeof roomType !== 'string') {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'roomType must be a string');
+    return;
+  }
+
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string'))) {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'tags must be an array of strings');
+    return;
+  }
+
+  if (hasSpace !== undefined && typeof hasSpace !== 'boolean') {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'hasSpace must be a boolean');
+    return;
+  }
+
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'offset must be a non-negative integer');
+    return;
+  }
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    sendError(socket, ErrorCodes.INVALID_INPUT, 'limit must be a positive integer');
+    return;
+  }
+
+  const page = await listRooms({ roomType, tags, hasSpace, offset, limit });
+
+  const response: WsRoomListMessage = {
+    type: 'roomList',
+    ...(requestId !== undefined && { requestId }),
+    ...page,
+  };
+  socket.send(encodeForSocket(socket, response));
+}
+
+/**
+ * Get the room a socket has joined, sending an error if it doesn't match roomId.
+ */
+function getJoinedRoom(socket: KasagiSocket, roomId: string): RoomState | undefined {
+  if (socket.roomId !== roomId) {
+    sendError(socket, 'WRONG_ROOM', 'You are not in this room');
+    return undefined;
+  }
+
+  const room = getRoom(roomId);
+  if (!room) {
+    sendError(socket, 'ROOM_NOT_FOUND', 'Room does not exist');
+  }
+  return room;
 }
 
 /**
@@ -198,11 +451,11 @@ function sendError(socket: KasagiSocket, code: string, message: string): void {
     code,
     message,
   };
-  socket.send(JSON.stringify(errorMessage));
+  socket.send(encodeForSocket(socket, errorMessage));
 }
 
 /**
- * Broadcast data to all clients in a specific room.
+ * Broadcast data to all clients in a specific room, each in its negotiated encoding.
  */
 export function broadcastToRoom(roomId: string, data: unknown): void {
   const room = getRoom(roomId);
@@ -211,12 +464,12 @@ export function broadcastToRoom(roomId: string, data: unknown): void {
     return;
   }
 
-  const encoded = msgpack.encode(data);
+  const frame = new OutgoingFrame(() => data);
 
   for (const client of room.clients) {
     if (client.readyState === WebSocket.OPEN) {
       try {
-        client.send(encoded);
+        client.send(frame.encodeFor(client));
       } catch (err) {
         wsLogger.error({ error: (err as Error).message }, 'Failed to broadcast to client');
       }
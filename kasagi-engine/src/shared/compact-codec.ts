@@ -0,0 +1,345 @@
+/**
+ * Schema-driven compact delta encoding shared by the server and clients.
+ *
+ * Field names and entity ids are replaced by small integers from an
+ * append-only dictionary. The dictionary is sent whole at join time and each
+ * frame carries the entries it added, so a receiver that has seen every
+ * frame since joining can always decode. Numeric fields declared in the
+ * schema are packed as scaled integers.
+ *
+ * The codec produces plain arrays; callers serialize them (MessagePack or JSON).
+ */
+
+import type { DeltaOp, EntityDelta, PathSegment } from './delta-ops.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CompactEncodingSchema {
+  /** Field names seeded into the dictionary, in id order. */
+  fields?: string[];
+  /** Numeric fields packed as integers of `precision` units (e.g. 0.01). */
+  quantize?: Record<string, number>;
+}
+
+export interface CompactDictionaryState {
+  fields: string[];
+  entities: string[];
+  quantize?: Record<string, number>;
+}
+
+/**
+ * [tag, tick, seq, timestamp, additions, entries, roomId?, instanceId?]
+ *
+ * additions: [fieldBase, newFields, entityBase, newEntities]
+ * entries:   [entityIndex, ops | null, entityIndex, ops | null, ...]
+ */
+export type CompactDeltaFrame = [
+  typeof COMPACT_DELTA_TAG,
+  number,
+  number,
+  number,
+  [number, string[], number, string[]],
+  unknown[],
+  string?,
+  string?,
+];
+
+/** Number of dictionary entries a receiver is known to have. */
+export interface CompactDictionarySize {
+  fields: number;
+  entities: number;
+}
+
+export interface DecodedCompactDelta {
+  tick: number;
+  seq: number;
+  timestamp: number;
+  delta: EntityDelta;
+  roomId?: string;
+  instanceId?: string;
+}
+
+/** First element of every compact frame; distinguishes it from object messages. */
+export const COMPACT_DELTA_TAG = 0xd1;
+
+const OP_SET = 0;
+const OP_DEL = 1;
+const OP_INS = 2;
+const OP_RM = 3;
+const OP_MV = 4;
+/** Whole-entity replacement with dictionary-encoded top-level fields. */
+const OP_ENTITY = 5;
+
+export class CompactDictionaryGapError extends Error {
+  constructor(kind: 'field' | 'entity', expected: number, received: number) {
+    super(`Compact ${kind} dictionary gap: have ${expected} entries, frame starts at ${received}`);
+    this.name = 'CompactDictionaryGapError';
+  }
+}
+
+// ============================================================================
+// Dictionary
+// ============================================================================
+
+export class CompactDictionary {
+  private readonly fields: string[] = [];
+  private readonly entities: string[] = [];
+  private readonly fieldIds: Map<string, number> = new Map();
+  private readonly entityIds: Map<string, number> = new Map();
+  private readonly quantize: Record<string, number>;
+
+  constructor(schema: CompactEncodingSchema = {}, state?: CompactDictionaryState) {
+    this.quantize = state?.quantize ?? schema.quantize ?? {};
+
+    for (const field of state?.fields ?? schema.fields ?? []) {
+      this.addField(field);
+    }
+    for (const entityId of state?.entities ?? []) {
+      this.addEntity(entityId);
+    }
+  }
+
+  /**
+   * Export the full dictionary for a joining client.
+   */
+  public export(): CompactDictionaryState {
+    return { fields: [...this.fields], entities: [...this.entities], quantize: { ...this.quantize } };
+  }
+
+  public get size(): CompactDictionarySize {
+    return { fields: this.fields.length, entities: this.entities.length };
+  }
+
+  public fieldId(name: string): number {
+    return this.fieldIds.get(name) ?? this.addField(name);
+  }
+
+  public entityId(id: string): number {
+    return this.entityIds.get(id) ?? this.addEntity(id);
+  }
+
+  public fieldName(id: number): string {
+    const name = this.fields[id];
+    if (name === undefined) throw new CompactDictionaryGapError('field', this.fields.length, id);
+    return name;
+  }
+
+  public entityName(id: number): string {
+    const name = this.entities[id];
+    if (name === undefined) throw new CompactDictionaryGapError('entity', this.entities.length, id);
+    return name;
+  }
+
+  public precisionFor(field: string): number | undefined {
+    return this.quantize[field];
+  }
+
+  /**
+   * Merge entries announced by a frame. Overlaps are ignored; a base beyond
+   * our size means frames were missed and the dictionary cannot be trusted.
+   * A base of 0 carries the sender's whole list (a keyframe), which replaces
+   * ours: a sender that started over with a fresh dictionary may have
+   * reassigned every id.
+   */
+  public applyAdditions(additions: [number, string[], number, string[]]): void {
+    const [fieldBase, newFields, entityBase, newEntities] = additions;
+
+    if (fieldBase === 0) {
+      this.fields.length = 0;
+      this.fieldIds.clear();
+    }
+    if (entityBase === 0) {
+      this.entities.length = 0;
+      this.entityIds.clear();
+    }
+
+    if (fieldBase > this.fields.length) {
+      throw new CompactDictionaryGapError('field', this.fields.length, fieldBase);
+    }
+    if (entityBase > this.entities.length) {
+      throw new CompactDictionaryGapError('entity', this.entities.length, entityBase);
+    }
+
+    newFields.slice(this.fields.length - fieldBase).forEach((field) => this.addField(field));
+    newEntities.slice(this.entities.length - entityBase).forEach((entityId) => this.addEntity(entityId));
+  }
+
+  private addField(name: string): number {
+    const id = this.fields.push(name) - 1;
+    this.fieldIds.set(name, id);
+    return id;
+  }
+
+  private addEntity(entityId: string): number {
+    const id = this.entities.push(entityId) - 1;
+    this.entityIds.set(entityId, id);
+    return id;
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode a delta into a compact frame, growing the dictionary as needed.
+ * The frame announces every entry from `announced` onwards, where `announced`
+ * is the dictionary size receivers already have (the size before this call
+ * by default). Passing `{ fields: 0, entities: 0 }` produces a keyframe for
+ * receivers that may have missed earlier frames.
+ */
+export function encodeCompactDelta(
+  delta: EntityDelta,
+  meta: { tick: number; seq: number; timestamp: number; roomId?: string; instanceId?: string },
+  dictionary: CompactDictionary,
+  announced: CompactDictionarySize = dictionary.size
+): CompactDeltaFrame {
+  const entries: unknown[] = [];
+
+  for (const [entityId, ops] of Object.entries(delta)) {
+    entries.push(dictionary.entityId(entityId), ops === null ? null : ops.map((op) => encodeOp(op, dictionary)));
+  }
+
+  const state = dictionary.export();
+  const fieldBase = Math.min(announced.fields, state.fields.length);
+  const entityBase = Math.min(announced.entities, state.entities.length);
+
+  const frame: CompactDeltaFrame = [
+    COMPACT_DELTA_TAG,
+    meta.tick,
+    meta.seq,
+    meta.timestamp,
+    [fieldBase, state.fields.slice(fieldBase), entityBase, state.entities.slice(entityBase)],
+    entries,
+  ];
+
+  if (meta.roomId !== undefined) {
+    frame.push(meta.roomId, meta.instanceId);
+  }
+
+  return frame;
+}
+
+function encodeOp(op: DeltaOp, dictionary: CompactDictionary): unknown[] {
+  const path = encodePath(op.path, dictionary);
+
+  switch (op.op) {
+    case 'set':
+      if (op.path.length === 0 && isPlainObject(op.value)) {
+        const fields: unknown[] = [];
+        for (const [field, value] of Object.entries(op.value)) {
+          fields.push(dictionary.fieldId(field), packNumber(field, value, dictionary));
+        }
+        return [OP_ENTITY, fields];
+      }
+      return [OP_SET, path, packNumber(lastField(op.path), op.value, dictionary)];
+    case 'del':
+      return [OP_DEL, path];
+    case 'ins':
+      return [OP_INS, path, op.index, op.value];
+    case 'rm':
+      return [OP_RM, path, op.index];
+    case 'mv':
+      return [OP_MV, path, op.from, op.to];
+  }
+}
+
+// Field names map to their (non-negative) id; array index i maps to -(i + 1)
+function encodePath(path: PathSegment[], dictionary: CompactDictionary): number[] {
+  return path.map((segment) => (typeof segment === 'number' ? -(segment + 1) : dictionary.fieldId(segment)));
+}
+
+function packNumber(field: string | undefined, value: unknown, dictionary: CompactDictionary): unknown {
+  const precision = field === undefined ? undefined : dictionary.precisionFor(field);
+  if (precision === undefined || typeof value !== 'number') {
+    return value;
+  }
+  return Math.round(value / precision);
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Check whether a decoded value is a compact delta frame.
+ */
+export function isCompactDeltaFrame(value: unknown): value is CompactDeltaFrame {
+  return Array.isArray(value) && value[0] === COMPACT_DELTA_TAG;
+}
+
+/**
+ * Decode a compact frame back into a standard entity delta.
+ * Throws CompactDictionaryGapError if the frame references unknown entries.
+ */
+export function decodeCompactDelta(frame: CompactDeltaFrame, dictionary: CompactDictionary): DecodedCompactDelta {
+  const [, tick, seq, timestamp, additions, entries, roomId, instanceId] = frame;
+  dictionary.applyAdditions(additions);
+
+  const delta: EntityDelta = {};
+  for (let i = 0; i < entries.length; i += 2) {
+    const entityId = dictionary.entityName(entries[i] as number);
+    const ops = entries[i + 1] as unknown[][] | null;
+    delta[entityId] = ops === null ? null : ops.map((op) => decodeOp(op, dictionary));
+  }
+
+  return { tick, seq, timestamp, delta, roomId, instanceId };
+}
+
+function decodeOp(encoded: unknown[], dictionary: CompactDictionary): DeltaOp {
+  const code = encoded[0] as number;
+
+  if (code === OP_ENTITY) {
+    const fields = encoded[1] as unknown[];
+    const value: Record<string, unknown> = {};
+    for (let i = 0; i < fields.length; i += 2) {
+      const field = dictionary.fieldName(fields[i] as number);
+      value[field] = unpackNumber(field, fields[i + 1], dictionary);
+    }
+    return { op: 'set', path: [], value };
+  }
+
+  const path = decodePath(encoded[1] as number[], dictionary);
+
+  switch (code) {
+    case OP_SET:
+      return { op: 'set', path, value: unpackNumber(lastField(path), encoded[2], dictionary) };
+    case OP_DEL:
+      return { op: 'del', path };
+    case OP_INS:
+      return { op: 'ins', path, index: encoded[2] as number, value: encoded[3] };
+    case OP_RM:
+      return { op: 'rm', path, index: encoded[2] as number };
+    case OP_MV:
+      return { op: 'mv', path, from: encoded[2] as number, to: encoded[3] as number };
+    default:
+      throw new Error(`Unknown compact op code: ${code}`);
+  }
+}
+
+function decodePath(path: number[], dictionary: CompactDictionary): PathSegment[] {
+  return path.map((segment) => (segment < 0 ? -segment - 1 : dictionary.fieldName(segment)));
+}
+
+function unpackNumber(field: string | undefined, value: unknown, dictionary: CompactDictionary): unknown {
+  const precision = field === undefined ? undefined : dictionary.precisionFor(field);
+  if (precision === undefined || typeof value !== 'number') {
+    return value;
+  }
+  return value * precision;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function lastField(path: PathSegment[]): string | undefined {
+  const last = path[path.length - 1];
+  return typeof last === 'string' ? last : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -12,12 +12,25 @@ export const DEFAULT_TICK_RATE = 20; // ticks per second
 export const DEFAULT_TICK_INTERVAL = 1000 / DEFAULT_TICK_RATE; // ms per tick
 export const MAX_ENTITIES_PER_ROOM = 100;
 export const ROOM_IDLE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_ROOM_TYPE = 'default';
+
+// Lobby room directory paging
+export const ROOM_LIST_DEFAULT_LIMIT = 20;
+export const ROOM_LIST_MAX_LIMIT = 100;
+
+// Wire protocol
+export const PROTOCOL_VERSION = 2;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1, 2] as const;
 
 // WebSocket configuration (Phase 3)
 export const WS_PING_INTERVAL = 30000; // 30 seconds
 export const WS_PONG_TIMEOUT = 10000; // 10 seconds
 export const WS_MAX_PAYLOAD_SIZE = 64 * 1024; // 64KB
 
+// Input validation defaults (apply when a room type has no stricter schema)
+export const MAX_INPUT_PAYLOAD_BYTES = 4 * 1024; // 4KB
+export const MAX_INPUT_FIELDS = 32;
+
 // Delta engine configuration
 export const DELTA_BATCH_SIZE = 10;
 export const DELTA_BATCH_INTERVAL = 50; // ms
@@ -31,6 +44,16 @@ export const ErrorCodes = {
   UNAUTHORIZED: 'UNAUTHORIZED',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   CONNECTION_ERROR: 'CONNECTION_ERROR',
+  UNSUPPORTED_PROTOCOL: 'UNSUPPORTED_PROTOCOL',
+  INCOMPATIBLE_CAPABILITIES: 'INCOMPATIBLE_CAPABILITIES',
+  PROTOCOL_ERROR: 'PROTOCOL_ERROR',
 } as const;
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
+
+// WebSocket close codes (application range 4000-4999)
+export const WsCloseCodes = {
+  REPLACED: 4001,
+  UNSUPPORTED_PROTOCOL: 4002,
+  INCOMPATIBLE_CAPABILITIES: 4003,
+} as const;
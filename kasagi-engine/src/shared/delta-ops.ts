@@ -0,0 +1,178 @@
+/**
+ * Path-based entity delta format shared by the server and clients.
+ *
+ * A delta maps entity ids to either `null` (entity removed) or an ordered
+ * list of operations. Operations must be applied in order: array indices in
+ * later operations refer to the array as left by earlier ones.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Object keys are strings, array indices are numbers. */
+export type PathSegment = string | number;
+
+export type DeltaOp =
+  /** Set the value at `path`. An empty path replaces the whole entity. */
+  | { op: 'set'; path: PathSegment[]; value: unknown }
+  /** Delete the object key at `path`. */
+  | { op: 'del'; path: PathSegment[] }
+  /** Insert `value` at `index` of the array at `path`. */
+  | { op: 'ins'; path: PathSegment[]; index: number; value: unknown }
+  /** Remove the element at `index` of the array at `path`. */
+  | { op: 'rm'; path: PathSegment[]; index: number }
+  /** Move the element at `from` to `to` within the array at `path`. */
+  | { op: 'mv'; path: PathSegment[]; from: number; to: number };
+
+export interface EntityDelta {
+  [entityId: string]: DeltaOp[] | null;
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+// Keys that would reach an object's prototype; operations on them are dropped
+const UNSAFE_KEYS: ReadonlySet<PathSegment> = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Whether an entity id or path segment would reach an object's prototype.
+ */
+export function isUnsafeKey(key: PathSegment): boolean {
+  return UNSAFE_KEYS.has(key);
+}
+
+// ============================================================================
+// Delta Application
+// ============================================================================
+
+/**
+ * Apply an entity delta to a set of entities.
+ * Mutates the entities object in place; values are copied, never aliased.
+ * Entity ids and path segments that would reach a prototype are skipped.
+ */
+export function applyDeltaToEntities(
+  entities: Record<string, Record<string, unknown>>,
+  delta: EntityDelta
+): void {
+  for (const [entityId, ops] of Object.entries(delta)) {
+    if (isUnsafeKey(entityId)) {
+      continue;
+    }
+
+    if (ops === null) {
+      delete entities[entityId];
+      continue;
+    }
+
+    const entity = applyEntityOps(Object.hasOwn(entities, entityId) ? entities[entityId] : undefined, ops);
+    if (entity) {
+      entities[entityId] = entity;
+    }
+  }
+}
+
+/**
+ * Apply a list of operations to one entity and return the resulting entity.
+ * The input entity is mutated unless the operations replace it entirely.
+ */
+export function applyEntityOps(
+  entity: Record<string, unknown> | undefined,
+  ops: DeltaOp[]
+): Record<string, unknown> | undefined {
+  let current = entity;
+
+  for (const op of ops) {
+    if (op.path.length === 0 && op.op === 'set') {
+      current = clone(op.value) as Record<string, unknown>;
+      continue;
+    }
+
+    current ??= {};
+    applyOp(current, op);
+  }
+
+  return current;
+}
+
+function applyOp(root: Record<string, unknown>, op: DeltaOp): void {
+  if (op.path.some(isUnsafeKey)) {
+    return;
+  }
+
+  switch (op.op) {
+    case 'set': {
+      const parent = resolveParent(root, op.path, true) as Container;
+      const key = op.path[op.path.length - 1];
+      (parent as Record<PathSegment, unknown>)[key] = clone(op.value);
+      return;
+    }
+    case 'del': {
+      const parent = resolveParent(root, op.path, false);
+      if (parent && !Array.isArray(parent)) {
+        delete parent[op.path[op.path.length - 1] as string];
+      }
+      return;
+    }
+    case 'ins': {
+      const array = resolveArray(root, op.path);
+      array.splice(op.index, 0, clone(op.value));
+      return;
+    }
+    case 'rm': {
+      const array = resolveArray(root, op.path);
+      array.splice(op.index, 1);
+      return;
+    }
+    case 'mv': {
+      const array = resolveArray(root, op.path);
+      const [item] = array.splice(op.from, 1);
+      array.splice(op.to, 0, item);
+      return;
+    }
+  }
+}
+
+/**
+ * Walk to the container holding the last path segment, through own
+ * properties only. Missing intermediate objects are created when `create`
+ * is set.
+ */
+function resolveParent(
+  root: Record<string, unknown>,
+  path: PathSegment[],
+  create: boolean
+): Container | undefined {
+  let node: Container = root;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const segment = path[i];
+    let next = Object.hasOwn(node, segment) ? (node as Record<PathSegment, unknown>)[segment] : undefined;
+
+    if (typeof next !== 'object' || next === null) {
+      if (!create) return undefined;
+      next = typeof path[i + 1] === 'number' ? [] : {};
+      (node as Record<PathSegment, unknown>)[segment] = next;
+    }
+
+    node = next as Container;
+  }
+
+  return node;
+}
+
+function resolveArray(root: Record<string, unknown>, path: PathSegment[]): unknown[] {
+  const parent = resolveParent(root, path, true) as Record<PathSegment, unknown>;
+  const key = path[path.length - 1];
+  let array = Object.hasOwn(parent, key) ? parent[key] : undefined;
+
+  if (!Array.isArray(array)) {
+    array = [];
+    parent[key] = array;
+  }
+
+  return array as unknown[];
+}
+
+function clone<T>(value: T): T {
+  return typeof value === 'object' && value !== null ? structuredClone(value) : value;
+}
@@ -3,6 +3,8 @@
  */
 
 import type { WebSocket } from 'ws';
+import type { EntityDelta } from './delta-ops.js';
+import type { CompactDictionaryState } from './compact-codec.js';
 
 // Entity and state types
 export interface EntityState {
@@ -18,6 +20,8 @@ export interface RoomStateData {
 // Player input types
 export interface PlayerInput {
   playerId: string;
+  // Target entity; defaults to the player's own entity
+  entityId?: string;
   payload: EntityState;
   timestamp?: number;
 }
@@ -35,48 +39,192 @@ export interface Delta {
 // WebSocket Message Types
 // ============================================================================
 
-export type WsMessageType = 'join' | 'input' | 'joined' | 'delta' | 'left' | 'error';
+export type WsMessageType =
+  | 'hello'
+  | 'join'
+  | 'input'
+  | 'ack'
+  | 'resync'
+  | 'listRooms'
+  | 'welcome'
+  | 'joined'
+  | 'delta'
+  | 'left'
+  | 'roomList'
+  | 'error';
+
+// standard: WsDeltaMessage objects
+// compact: dictionary-encoded CompactDeltaFrame arrays (see compact-codec.ts)
+export type DeltaFormat = 'standard' | 'compact';
 
 export interface WsBaseMessage {
   type: WsMessageType;
 }
 
+// Protocol versions (see PROTOCOL_VERSION): 1 is the original protocol with
+// no handshake, 2 opens with hello/welcome
+export type ProtocolVersion = 1 | 2;
+
+// Encoding of every message on a connection, in both directions:
+// json: JSON text frames
+// msgpack: MessagePack binary frames
+// mixed: the version 1 protocol; clients send JSON, and the server sends
+//   JSON for control messages and MessagePack for snapshots and deltas.
+//   Only clients that never send hello get it; hello cannot negotiate it
+export type WireEncoding = 'json' | 'msgpack' | 'mixed';
+
+// permessage-deflate is agreed during the WebSocket upgrade; hello only confirms it
+export type CompressionMode = 'none' | 'permessage-deflate';
+
+// What a client supports; lists are in order of preference
+export interface ClientCapabilities {
+  encodings?: WireEncoding[];
+  compression?: CompressionMode[];
+  deltaFormats?: DeltaFormat[];
+  // Accepts several frames batched into one message
+  batching?: boolean;
+  // Sends ack messages for applied deltas
+  acks?: boolean;
+}
+
+// Settings in effect for a connection
+export interface NegotiatedSettings {
+  protocolVersion: ProtocolVersion;
+  encoding: WireEncoding;
+  compression: CompressionMode;
+  // Default for joins that don't name a delta format
+  deltaFormat: DeltaFormat;
+  batching: boolean;
+  acks: boolean;
+}
+
+// Client → Server: First message on a connection
+export interface WsHelloMessage extends WsBaseMessage {
+  type: 'hello';
+  protocolVersion: number;
+  capabilities?: ClientCapabilities;
+}
+
 // Client → Server: Join a room
 export interface WsJoinMessage extends WsBaseMessage {
   type: 'join';
   roomId: string;
   playerId?: string;
+  // Registered room type; only used when the join creates the room
+  roomType?: string;
+  // Delta encoding for this connection (defaults to 'standard'). After a
+  // hello it must match the negotiated format, so it can be left out
+  deltaFormat?: DeltaFormat;
+  // Last seq the client applied before reconnecting; enables delta replay
+  lastSeq?: number;
 }
 
 // Client → Server: Send input
 export interface WsInputMessage extends WsBaseMessage {
   type: 'input';
   roomId: string;
+  // Must match the playerId bound to the socket at join
   playerId: string;
+  // Target entity; defaults to playerId. Other entities require a server grant.
+  entityId?: string;
   payload: EntityState;
 }
 
+// Client → Server: Acknowledge the last applied delta
+export interface WsAckMessage extends WsBaseMessage {
+  type: 'ack';
+  roomId: string;
+  seq: number;
+}
+
+// Client → Server: Request catch-up after detecting a seq gap
+// Without lastSeq the server resumes from the client's last ack
+export interface WsResyncMessage extends WsBaseMessage {
+  type: 'resync';
+  roomId: string;
+  lastSeq?: number;
+}
+
+// Lobby filters; every given filter must match
+export interface RoomListFilter {
+  roomType?: string;
+  // Rooms carrying all of these tags
+  tags?: string[];
+  // Only rooms below capacity (rooms without a capacity always qualify)
+  hasSpace?: boolean;
+  offset?: number;
+  // Page size (defaults to ROOM_LIST_DEFAULT_LIMIT, capped at ROOM_LIST_MAX_LIMIT)
+  limit?: number;
+}
+
+// Client → Server: Browse the cluster-wide room directory
+export interface WsListRoomsMessage extends WsBaseMessage, RoomListFilter {
+  type: 'listRooms';
+  // Echoed in the reply so clients can match concurrent requests
+  requestId?: string;
+}
+
+// Server → Client: Handshake accepted
+export interface WsWelcomeMessage extends WsBaseMessage, NegotiatedSettings {
+  type: 'welcome';
+}
+
 // Server → Client: Joined confirmation
 export interface WsJoinedMessage extends WsBaseMessage {
   type: 'joined';
   roomId: string;
   playerId: string;
+  roomType: string;
+  deltaFormat: DeltaFormat;
+  // Full compact dictionary at join time (compact format only)
+  dictionary?: CompactDictionaryState;
+  // How the client will be brought up to date: a snapshot, or replayed deltas after lastSeq
+  sync: 'snapshot' | 'replay';
 }
 
-// Server → Client: State delta (MessagePack encoded)
+// Server → Client: State delta (standard delta format)
 export interface WsDeltaMessage extends WsBaseMessage {
   type: 'delta';
   roomId: string;
   tick: number;
   seq: number;
-  delta: Record<string, unknown>;
+  delta: EntityDelta;
   timestamp: number;
+  /** Instance that produced the delta; absent on replayed deltas. */
+  instanceId?: string;
 }
 
 // Server → Client: Left room
 export interface WsLeftMessage extends WsBaseMessage {
   type: 'left';
   roomId: string;
+  // Set when the server removed the client ('closed': the room was closed for good)
+  reason?: 'closed';
+}
+
+// A room in the lobby directory, summed over every instance hosting it
+export interface RoomSummary {
+  roomId: string;
+  roomType: string;
+  players: number;
+  // null when the room type sets no capacity
+  capacity: number | null;
+  tags: string[];
+  instances: number;
+}
+
+export interface RoomListPage {
+  rooms: RoomSummary[];
+  // Rooms matching the filters, across all pages
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+// Server → Client: One page of the room directory
+export interface WsRoomListMessage extends WsBaseMessage, RoomListPage {
+  type: 'roomList';
+  requestId?: string;
 }
 
 // Server → Client: Error
@@ -86,14 +234,29 @@ export interface WsErrorMessage extends WsBaseMessage {
   message: string;
 }
 
-export type WsClientMessage = WsJoinMessage | WsInputMessage;
-export type WsServerMessage = WsJoinedMessage | WsDeltaMessage | WsLeftMessage | WsErrorMessage;
+export type WsClientMessage =
+  | WsHelloMessage
+  | WsJoinMessage
+  | WsInputMessage
+  | WsAckMessage
+  | WsResyncMessage
+  | WsListRoomsMessage;
+export type WsServerMessage =
+  | WsWelcomeMessage
+  | WsJoinedMessage
+  | WsDeltaMessage
+  | WsLeftMessage
+  | WsRoomListMessage
+  | WsErrorMessage;
 
 // Extended WebSocket with metadata
 export interface KasagiSocket extends WebSocket {
   roomId: string | null;
   playerId: string | null;
   isAlive: boolean;
+  deltaFormat: DeltaFormat;
+  // Set by hello, or to version 1 defaults by any other first message
+  negotiated: NegotiatedSettings | null;
 }
 
 // Legacy message types for backwards compatibility
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { WebSocket } from 'ws';
+
+// env.ts validates the Redis settings on import, before any test runs
+process.env.SENTINEL_1 ??= 'localhost:26379';
+process.env.SENTINEL_2 ??= 'localhost:26380';
+process.env.SENTINEL_3 ??= 'localhost:26381';
+process.env.LOG_LEVEL ??= 'silent';
+
+const { MemoryBackplaneHub } = await import('../src/server/backplane/memory-backplane.js');
+const { RoomManager } = await import('../src/server/rooms/room-manager.js');
+
+interface FakeSocket {
+  roomId: string | null;
+  playerId: string | null;
+  readyState: number;
+  sent: Array<Buffer | string>;
+}
+
+/**
+ * Just enough of a KasagiSocket for rooms to send to.
+ */
+function fakeSocket(playerId: string): FakeSocket & WebSocket {
+  const socket = {
+    roomId: null,
+    playerId,
+    isAlive: true,
+    negotiated: null,
+    readyState: 1,
+    sent: [] as Array<Buffer | string>,
+    send(data: Buffer | string) {
+      socket.sent.push(data);
+    },
+    close() {},
+  };
+  return socket as unknown as FakeSocket & WebSocket;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+test('two instances on one hub keep a room in sync', async () => {
+  const hub = new MemoryBackplaneHub();
+  const first = new RoomManager(hub.createBackplane('instance-a'));
+  const second = new RoomManager(hub.createBackplane('instance-b'));
+
+  const alice = fakeSocket('alice');
+  const bob = fakeSocket('bob');
+  const owner = await first.joinRoom('arena', alice);
+  const follower = await second.joinRoom('arena', bob);
+
+  try {
+    await waitFor(() => owner.isOwner());
+    assert.equal(follower.isOwner(), false);
+
+    // The follower forwards its player's input; the owner applies it and
+    // publishes the delta back to the follower
+    follower.applyInput({ playerId: 'bob', payload: { x: 3, y: 4 } });
+
+    await waitFor(() => (follower.state.entities.bob as { x?: number } | undefined)?.x === 3);
+    assert.deepEqual(
+      { x: follower.state.entities.bob.x, y: follower.state.entities.bob.y },
+      { x: 3, y: 4 }
+    );
+    assert.equal(follower.state.seq, owner.state.seq);
+    assert.deepEqual(follower.state.entities, owner.state.entities);
+    assert.ok(bob.sent.length > 0, 'follower clients receive the delta');
+  } finally {
+    await first.deleteRoom('arena');
+    await second.deleteRoom('arena');
+  }
+});